@@ -0,0 +1,152 @@
+import { describe, expect, test } from 'vitest';
+import type { AgentEvents } from '@/app/agent/events';
+import { SummarizingCompaction, TruncatingCompaction } from '@/app/compaction';
+import { LLMSettings, config } from '@/app/config';
+import { LLM } from '@/app/llm';
+import { SUMMARY_MESSAGE_PREFIX } from '@/app/prompt/compaction';
+import type { ScriptStep, ScriptedProvider } from '@/app/provider/scripted';
+import { Function, Memory, Message, ToolCall } from '@/app/schema';
+import { ToolCallAgent } from '@/app/toolcall';
+
+function scripted_llm(script: ScriptStep[]): LLM {
+  return new LLM({
+    config_name: 'compaction_test',
+    llm_config: new LLMSettings({
+      ...config.llm['default'],
+      api_type: 'scripted',
+      model: 'scripted-model',
+      script,
+    }),
+  });
+}
+
+function tool_call(id: string): ToolCall {
+  return new ToolCall({ id, type: 'function', fn: new Function({ name: 'bash', args: '{}' }) });
+}
+
+function calls(...ids: string[]): Message {
+  return Message.from_tool_calls({ content: '', tool_calls: ids.map(tool_call) });
+}
+
+function result(id: string): Message {
+  return Message.tool_message({ content: `result ${id}`, name: 'bash', tool_call_id: id });
+}
+
+// A run with two tool call units, the second one the largest
+function history(): Message[] {
+  return [
+    Message.system_message('system'),
+    Message.user_message('request'),
+    calls('a'),
+    result('a'),
+    Message.assistant_message({ content: 'step 1' }),
+    calls('b', 'c'),
+    result('b'),
+    result('c'),
+    Message.assistant_message({ content: 'step 2' }),
+  ];
+}
+
+const contents = (messages: Message[]) => messages.map((m) => m.content);
+
+describe('SummarizingCompaction', () => {
+  test('replaces the older turns by a summary and keeps the pinned messages', async () => {
+    const llm = scripted_llm([{ content: 'They listed files' }]);
+    const compaction = new SummarizingCompaction({ llm, max_tokens: 0, keep_recent: 1 });
+    const compacted = await compaction.compact(history());
+    expect(contents(compacted)).toEqual([
+      'system',
+      'request',
+      `${SUMMARY_MESSAGE_PREFIX}\nThey listed files`,
+      'step 2',
+    ]);
+  });
+
+  test('keeps a tool call unit whole rather than summarizing part of it', async () => {
+    const llm = scripted_llm([{ content: 'summary' }]);
+    // Room for the last answer and two of the three messages of the unit before it
+    const compaction = new SummarizingCompaction({ llm, max_tokens: 0, keep_recent: 3 });
+    const compacted = await compaction.compact(history());
+    expect(contents(compacted)).toEqual([
+      'system',
+      'request',
+      `${SUMMARY_MESSAGE_PREFIX}\nsummary`,
+      'step 2',
+    ]);
+    const [summarized] = (llm.provider as ScriptedProvider).requests;
+    expect(summarized.messages.at(-1)?.content).toContain('[called bash({})]');
+    expect(summarized.messages.at(-1)?.content).toContain('tool bash: result c');
+  });
+
+  test('leaves the memory alone when everything is recent', async () => {
+    const llm = scripted_llm([]);
+    const compaction = new SummarizingCompaction({ llm, max_tokens: 0, keep_recent: 20 });
+    const messages = history();
+    expect(await compaction.compact(messages)).toBe(messages);
+  });
+});
+
+describe('TruncatingCompaction', () => {
+  test('drops the oldest units until the memory fits', async () => {
+    const llm = scripted_llm([]);
+    const messages = history();
+    const without_first_unit = messages.filter((_, i) => i !== 2 && i !== 3);
+    const compaction = new TruncatingCompaction({
+      llm,
+      max_tokens: llm.count_message_tokens(without_first_unit),
+      keep_recent: 1,
+    });
+    expect(await compaction.compact(messages)).toEqual(without_first_unit);
+  });
+
+  test('never drops the pinned messages nor part of a unit', async () => {
+    const compaction = new TruncatingCompaction({
+      llm: scripted_llm([]),
+      max_tokens: 0,
+      keep_recent: 3,
+    });
+    const compacted = await compaction.compact(history());
+    expect(contents(compacted)).toEqual(['system', 'request', 'step 2']);
+    expect(Memory.group_units(compacted)).toEqual([[0], [1], [2]]);
+  });
+});
+
+describe('Memory.compact', () => {
+  test('compacts only when the strategy asks for it', async () => {
+    const llm = scripted_llm([]);
+    const memory = new Memory({
+      messages: history(),
+      compaction: new TruncatingCompaction({ llm, max_tokens: 100_000 }),
+    });
+    expect(await memory.compact()).toBe(false);
+    expect(memory.messages).toHaveLength(9);
+
+    memory.compaction = new TruncatingCompaction({ llm, max_tokens: 0, keep_recent: 1 });
+    expect(await memory.compact()).toBe(true);
+    expect(contents(memory.messages)).toEqual(['system', 'request', 'step 2']);
+  });
+
+  test('is reported by the agent with the memory_compacted event', async () => {
+    const llm = scripted_llm([
+      { content: 'Done', tool_calls: [{ name: 'terminate', arguments: { status: 'success' } }] },
+    ]);
+    const agent = new ToolCallAgent({ llm, max_steps: 1, log_to_console: false });
+    agent.memory.add_messages(history().slice(1));
+    agent.memory.compaction = new TruncatingCompaction({ llm, max_tokens: 0, keep_recent: 2 });
+    const compacted: AgentEvents['memory_compacted'][] = [];
+    agent.events.on('memory_compacted', (event) => {
+      compacted.push(event);
+    });
+
+    await agent.run();
+    expect(compacted).toEqual([{ agent: agent.name, before: 9, after: 3, strategy: 'truncate' }]);
+    // The request and the latest messages were sent to the model
+    const [sent] = (llm.provider as ScriptedProvider).requests;
+    expect(sent.messages.map((m) => m.content)).toEqual([
+      agent.system_prompt,
+      'request',
+      'step 2',
+      agent.next_step_prompt,
+    ]);
+  });
+});
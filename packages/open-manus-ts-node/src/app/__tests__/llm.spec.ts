@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { LLMSettings, config } from '@/app/config';
+import { LLM, TokenCounter } from '@/app/llm';
+import type { ScriptStep } from '@/app/provider/scripted';
+import { ProviderError, RetryError } from '@/app/utils/error';
+
+const BACKUP = 'fallback_backup';
+
+describe('LLM fallback chain', () => {
+  // Models called, in call order
+  let calls: string[];
+
+  function step(model: string, failures: number): ScriptStep {
+    return () => {
+      calls.push(model);
+      if (calls.filter((called) => called === model).length <= failures) {
+        throw new ProviderError('Service overloaded', { status: 503 });
+      }
+      return { content: `Answer of ${model}` };
+    };
+  }
+
+  function settings(model: string, script: ScriptStep[], fallbacks: string[] = []) {
+    return new LLMSettings({
+      ...config.llm['default'],
+      api_type: 'scripted',
+      model,
+      script,
+      fallbacks,
+      retry: { max_attempts: 3, initial_wait: 0, jitter: 0 },
+    });
+  }
+
+  function primary(failures: number): LLM {
+    const script = Array.from({ length: 3 }, () => step('primary', failures));
+    return new LLM({
+      config_name: 'fallback_primary',
+      llm_config: settings('primary', script, [BACKUP]),
+    });
+  }
+
+  const messages = [{ role: 'user', content: 'Hi' }];
+
+  beforeEach(() => {
+    calls = [];
+    config.llm[BACKUP] = settings('backup', [step('backup', 0)]);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    delete config.llm[BACKUP];
+    vi.restoreAllMocks();
+  });
+
+  test('retries a transient error with the same model first', async () => {
+    expect(await primary(2).ask({ messages, stream: false })).toBe('Answer of primary');
+    expect(calls).toEqual(['primary', 'primary', 'primary']);
+  });
+
+  test('falls back once the model is out of retries', async () => {
+    expect(await primary(3).ask({ messages, stream: false })).toBe('Answer of backup');
+    expect(calls).toEqual(['primary', 'primary', 'primary', 'backup']);
+  });
+
+  test('fails with the retries of the last model of the chain', async () => {
+    config.llm[BACKUP] = settings(
+      'backup',
+      Array.from({ length: 3 }, () => step('backup', 3)),
+    );
+    await expect(primary(3).ask({ messages, stream: false })).rejects.toThrow(RetryError);
+    expect(calls).toEqual(['primary', 'primary', 'primary', 'backup', 'backup', 'backup']);
+  });
+});
+
+describe('TokenCounter.count_image', () => {
+  // One token per character, images are counted without the tokenizer
+  const counter = new TokenCounter({ name: 'chars', count: (text) => text.length });
+
+  // Signature and IHDR chunk of a PNG of the given size
+  function png_url(width: number, height: number): string {
+    const header = Buffer.alloc(24);
+    header.write('\x89PNG\r\n\x1a\n', 'latin1');
+    header.writeUInt32BE(13, 8);
+    header.write('IHDR', 12, 'latin1');
+    header.writeUInt32BE(width, 16);
+    header.writeUInt32BE(height, 20);
+    return `data:image/png;base64,${header.toString('base64')}`;
+  }
+
+  const image = (url: string, detail?: 'low' | 'high') => [{ image_url: { url, detail } }];
+
+  test('counts a fixed amount for low detail', () => {
+    expect(counter.count_content(image(png_url(4000, 3000), 'low'))).toBe(85);
+  });
+
+  test('counts the 512px tiles of the image scaled down to 768px on its short side', () => {
+    // 2 x 2 tiles
+    expect(counter.count_content(image(png_url(1024, 1024)))).toBe(4 * 170 + 85);
+    // Fit into 2048 x 2048 first, then 1536 x 768, 3 x 2 tiles
+    expect(counter.count_content(image(png_url(4096, 2048)))).toBe(6 * 170 + 85);
+    // Small images are not scaled up
+    expect(counter.count_content(image(png_url(300, 200)))).toBe(170 + 85);
+  });
+
+  test('estimates images of unknown size', () => {
+    expect(counter.count_content(image('https://example.com/image.png'))).toBe(1024);
+    expect(counter.count_content(image('https://example.com/image.png', 'high'))).toBe(
+      counter.count_image({ detail: 'high', dimensions: { width: 1024, height: 2024 } }),
+    );
+  });
+});
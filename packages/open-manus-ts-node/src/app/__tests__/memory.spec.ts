@@ -0,0 +1,93 @@
+import { describe, expect, test } from 'vitest';
+import { LLM } from '@/app/llm';
+import { Function, Memory, Message, ToolCall } from '@/app/schema';
+import { InvalidTranscript } from '@/app/utils/error';
+
+function tool_call(id: string): ToolCall {
+  return new ToolCall({ id, type: 'function', fn: new Function({ name: 'bash', args: '{}' }) });
+}
+
+function calls(...ids: string[]): Message {
+  return Message.from_tool_calls({ content: '', tool_calls: ids.map(tool_call) });
+}
+
+function result(id: string): Message {
+  return Message.tool_message({ content: `result ${id}`, name: 'bash', tool_call_id: id });
+}
+
+describe('Memory.group_units', () => {
+  test('groups tool calls with the results answering them', () => {
+    const messages = [
+      Message.user_message('request'),
+      calls('a', 'b'),
+      result('a'),
+      result('b'),
+      Message.assistant_message({ content: 'done' }),
+    ];
+    expect(Memory.group_units(messages)).toEqual([[0], [1, 2, 3], [4]]);
+  });
+
+  test('leaves a result of another call out of the unit', () => {
+    const messages = [calls('a'), result('a'), result('x')];
+    expect(Memory.group_units(messages)).toEqual([[0, 1], [2]]);
+  });
+});
+
+describe('Memory trimming', () => {
+  test('keeps the system message and the request', () => {
+    const memory = new Memory({ max_messages: 3 });
+    memory.add_messages([Message.system_message('system'), Message.user_message('request')]);
+    for (let i = 0; i < 5; i++) {
+      memory.add_message(Message.assistant_message({ content: `step ${i}` }));
+    }
+    expect(memory.messages.map((m) => m.content)).toEqual(['system', 'request', 'step 4']);
+  });
+
+  test('drops a tool call unit as a whole', () => {
+    const memory = new Memory({ max_messages: 4 });
+    memory.add_messages([
+      Message.user_message('request'),
+      calls('a', 'b'),
+      result('a'),
+      result('b'),
+      Message.assistant_message({ content: 'done' }),
+    ]);
+    expect(memory.messages.map((m) => m.content)).toEqual(['request', 'done']);
+  });
+
+  test('never starts a recent window inside a unit', () => {
+    const memory = new Memory({
+      messages: [Message.user_message('request'), calls('a'), result('a'), result('x')],
+    });
+    expect(memory.get_recent_messages(2)).toEqual([memory.messages[3]]);
+    expect(memory.get_recent_messages(3)).toEqual(memory.messages.slice(1));
+  });
+});
+
+describe('LLM.validate_transcript', () => {
+  const format = (messages: Message[]) => LLM.format_messages(messages);
+
+  test('accepts results following their calls', () => {
+    const messages = format([
+      Message.user_message('request'),
+      calls('a', 'b'),
+      result('b'),
+      result('a'),
+    ]);
+    expect(() => LLM.validate_transcript(messages)).not.toThrow();
+  });
+
+  test('rejects a result without a preceding call', () => {
+    const messages = format([Message.user_message('request'), result('a')]);
+    expect(() => LLM.validate_transcript(messages)).toThrow(InvalidTranscript);
+  });
+
+  test('rejects a call left without a result', () => {
+    const messages = format([calls('a', 'b'), result('a'), Message.user_message('next')]);
+    expect(() => LLM.validate_transcript(messages)).toThrow(/tool calls b have no result/);
+  });
+
+  test('rejects a call the transcript ends without answering', () => {
+    expect(() => LLM.validate_transcript(format([calls('a')]))).toThrow(InvalidTranscript);
+  });
+});
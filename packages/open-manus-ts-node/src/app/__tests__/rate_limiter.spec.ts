@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { type RateLimitRelease, RateLimiter } from '@/app/rate_limiter';
+import { AbortError } from '@/app/utils/error';
+
+// Names of the requests granted so far, in grant order
+function track(requests: Record<string, Promise<RateLimitRelease>>) {
+  const granted: string[] = [];
+  for (const [name, request] of Object.entries(requests)) {
+    request.then(
+      () => granted.push(name),
+      () => undefined,
+    );
+  }
+  return granted;
+}
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test('has no limiter without limits', () => {
+    expect(RateLimiter.getInstance({ base_url: 'http://api', model: 'm' })).toBeUndefined();
+  });
+
+  test('shares one limiter per endpoint and model', () => {
+    const settings = { requests_per_minute: 10 };
+    const limiter = RateLimiter.getInstance({ base_url: 'http://api', model: 'a', settings });
+    expect(RateLimiter.getInstance({ base_url: 'http://api', model: 'a', settings })).toBe(limiter);
+    expect(RateLimiter.getInstance({ base_url: 'http://api', model: 'b', settings })).not.toBe(
+      limiter,
+    );
+  });
+
+  test('queues requests over the concurrency limit until one ends', async () => {
+    const limiter = new RateLimiter({ key: 'test', max_concurrent: 1 });
+    const on_wait = vi.fn();
+    const release = await limiter.acquire(10);
+    const second = limiter.acquire(10, { on_wait });
+    const granted = track({ second });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(granted).toEqual([]);
+    expect(on_wait).toHaveBeenCalledWith(1);
+    expect(limiter.waiting).toBe(1);
+
+    release();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(granted).toEqual(['second']);
+    expect(limiter.active).toBe(1);
+  });
+
+  test('waits for the window to free up over the request limit', async () => {
+    const limiter = new RateLimiter({ key: 'test', requests_per_minute: 2 });
+    (await limiter.acquire(1))();
+    (await limiter.acquire(1))();
+    const granted = track({ third: limiter.acquire(1) });
+    await vi.advanceTimersByTimeAsync(59_000);
+    expect(granted).toEqual([]);
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(granted).toEqual(['third']);
+  });
+
+  test('grants requests in order, small ones do not overtake a large one', async () => {
+    const limiter = new RateLimiter({ key: 'test', tokens_per_minute: 100 });
+    (await limiter.acquire(60))();
+    const granted = track({ large: limiter.acquire(60), small: limiter.acquire(10) });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(granted).toEqual([]);
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(granted).toEqual(['large', 'small']);
+  });
+
+  test('counts the tokens a request reports using instead of its estimate', async () => {
+    const limiter = new RateLimiter({ key: 'test', tokens_per_minute: 100 });
+    const release = await limiter.acquire(90);
+    const granted = track({ next: limiter.acquire(50) });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(granted).toEqual([]);
+    release(20);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(granted).toEqual(['next']);
+  });
+
+  test('lets a request larger than the token limit through alone', async () => {
+    const limiter = new RateLimiter({ key: 'test', tokens_per_minute: 100 });
+    await expect(limiter.acquire(500)).resolves.toBeTypeOf('function');
+  });
+
+  test('removes an aborted request from the queue', async () => {
+    const limiter = new RateLimiter({ key: 'test', max_concurrent: 1 });
+    const release = await limiter.acquire(1);
+    const controller = new AbortController();
+    const aborted = limiter.acquire(1, { signal: controller.signal });
+    const granted = track({ next: limiter.acquire(1) });
+
+    controller.abort();
+    await expect(aborted).rejects.toBeInstanceOf(AbortError);
+    expect(limiter.waiting).toBe(1);
+
+    release();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(granted).toEqual(['next']);
+  });
+
+  test('rejects at once when already aborted', async () => {
+    const limiter = new RateLimiter({ key: 'test', max_concurrent: 1 });
+    const controller = new AbortController();
+    controller.abort();
+    await expect(limiter.acquire(1, { signal: controller.signal })).rejects.toBeInstanceOf(
+      AbortError,
+    );
+    expect(limiter.active).toBe(0);
+  });
+});
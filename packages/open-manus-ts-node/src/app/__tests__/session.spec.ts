@@ -0,0 +1,135 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { basename, dirname, join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+import { LLMSettings, config } from '@/app/config';
+import { LLM } from '@/app/llm';
+import type { ScriptStep } from '@/app/provider/scripted';
+import { AgentState, Function, Role, ToolCall } from '@/app/schema';
+import { SessionStore } from '@/app/session';
+import { TokenBudget } from '@/app/token_budget';
+import { ToolCallAgent } from '@/app/toolcall';
+import { ValueError } from '@/app/utils/error';
+
+const PROFILE = 'session_test';
+
+const usage = { prompt_tokens: 10, completion_tokens: 5 };
+const THINK: ScriptStep = { content: 'Looking into it', usage };
+const TERMINATE: ScriptStep = {
+  content: 'Done',
+  tool_calls: [{ name: 'terminate', arguments: { status: 'success' } }],
+  usage,
+};
+
+function scripted_settings(script: ScriptStep[]): LLMSettings {
+  return new LLMSettings({
+    ...config.llm['default'],
+    api_type: 'scripted',
+    model: 'scripted-model',
+    script,
+  });
+}
+
+function create_agent(llm: LLM): ToolCallAgent {
+  return new ToolCallAgent({ name: 'resumable', llm, max_steps: 5, log_to_console: false });
+}
+
+describe('SessionStore', () => {
+  let dir: string;
+  let store: SessionStore;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'sessions-'));
+    store = new SessionStore({ dir });
+  });
+
+  afterEach(async () => {
+    delete config.llm[PROFILE];
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('keeps sessions in the workspace by default', () => {
+    const { dir } = new SessionStore();
+    expect(basename(dir)).toBe('sessions');
+    expect(basename(dirname(dir))).toBe('workspace');
+  });
+
+  test('resumes an agent saved in the middle of a run', async () => {
+    const agent = create_agent(
+      new LLM({ config_name: PROFILE, llm_config: scripted_settings([THINK, TERMINATE]) }),
+    );
+    agent.token_budget = new TokenBudget({ limit: 1000 });
+    store.attach(agent, 'run-1');
+    // The first step ends the run, as if the process were stopped there
+    const controller = new AbortController();
+    agent.events.on('step_end', () => controller.abort());
+    await expect(agent.run('Do the task', { signal: controller.signal })).rejects.toThrow();
+    await store.flush();
+
+    // The profile answers the rest of the run in the new process
+    config.llm[PROFILE] = scripted_settings([TERMINATE]);
+    const resumed = await store.resume('run-1', create_agent(new LLM({})));
+
+    expect(resumed.llm.config_name).toBe(PROFILE);
+    expect(resumed.llm.model).toBe('scripted-model');
+    expect(resumed.current_step).toBe(1);
+    expect(resumed.state).toBe(AgentState.IDLE);
+    expect(resumed.memory.messages.map((m) => [m.role, m.content])).toEqual([
+      [Role.USER, 'Do the task'],
+      [Role.USER, agent.next_step_prompt],
+      [Role.ASSISTANT, 'Looking into it'],
+    ]);
+    expect(resumed.token_budget?.used).toBe(15);
+
+    // The run goes on from the second step and ends there
+    expect(await resumed.run()).toMatch(/^Step 2: /);
+    expect(resumed.current_step).toBe(2);
+    // The budget of the run is carried on, not reset
+    expect(resumed.token_budget?.used).toBe(30);
+  });
+
+  test('restores the tool calls of the interrupted step', async () => {
+    const agent = create_agent(
+      new LLM({ config_name: PROFILE, llm_config: scripted_settings([]) }),
+    );
+    agent.tool_calls = [
+      new ToolCall({
+        id: 'call_1',
+        type: 'function',
+        fn: new Function({ name: 'terminate', args: '{"status": "success"}' }),
+      }),
+    ];
+    await store.save(agent, 'pending');
+    const restored = await store.resume('pending', create_agent(agent.llm));
+    expect(restored.tool_calls).toEqual(agent.tool_calls);
+    expect(restored.tool_calls[0]).toBeInstanceOf(ToolCall);
+  });
+
+  test('lists and deletes sessions', async () => {
+    const agent = create_agent(
+      new LLM({ config_name: PROFILE, llm_config: scripted_settings([]) }),
+    );
+    await store.save(agent, 'a');
+    await store.save(agent, 'b');
+    expect((await store.list()).sort()).toEqual(['a', 'b']);
+    await store.delete('a');
+    expect(await store.list()).toEqual(['b']);
+  });
+
+  test('fails clearly on a missing session', async () => {
+    expect(await store.load('missing')).toBeNull();
+    await expect(store.resume('missing')).rejects.toThrow(`Session missing not found in ${dir}`);
+  });
+
+  test('fails clearly on a corrupt session file', async () => {
+    await writeFile(store.path_for('broken'), '{"version": 1, "agent": {', 'utf-8');
+    await expect(store.load('broken')).rejects.toThrow(ValueError);
+    await expect(store.resume('broken')).rejects.toThrow(/^Session broken is corrupt: /);
+    await writeFile(store.path_for('old'), '{"version": 0}', 'utf-8');
+    await expect(store.load('old')).rejects.toThrow('Unsupported session snapshot version: 0');
+  });
+
+  test('rejects session ids that are not file names', () => {
+    expect(() => store.path_for('../escape')).toThrow(ValueError);
+  });
+});
@@ -0,0 +1,17 @@
+import { basename } from 'node:path';
+import { describe, expect, test } from 'vitest';
+import { DataAnalysis } from '@/app/agent/data_analysis';
+import { Manus } from '@/app/agent/manus';
+import { config } from '@/app/config';
+
+describe('agent prompts', () => {
+  test('point the model at the workspace directory', () => {
+    expect(basename(config.workspace_root)).toBe('workspace');
+    expect(new Manus({ log_to_console: false }).system_prompt).toContain(
+      `The initial directory is: ${config.workspace_root}`,
+    );
+    expect(new DataAnalysis({ log_to_console: false }).system_prompt).toContain(
+      `Work inside the workspace directory: ${config.workspace_root}.`,
+    );
+  });
+});
@@ -1,9 +1,35 @@
+import { randomUUID } from 'node:crypto';
+import { attach_console_logger } from '@/app/agent/console_logger';
+import type { AgentEvents, RunStreamEvent } from '@/app/agent/events';
+import { to_stream_event } from '@/app/agent/events';
 import { LLM } from '@/app/llm';
 import type { AGENT_STATE_TYPE, ROLE_TYPE } from '@/app/schema';
 import { AGENT_STATE_VALUES, AgentState, Memory, Message, Role } from '@/app/schema';
+import { is_abort_error, throw_if_aborted, to_abort_error } from '@/app/utils/abort';
+import { BudgetScope, TokenBudget } from '@/app/token_budget';
+import type { UsageReport } from '@/app/usage';
+import { UsageTracker, with_usage_scope } from '@/app/usage';
+import { AsyncQueue } from '@/app/utils/async_queue';
+import { TypedEventEmitter } from '@/app/utils/event_emitter';
 import type { PropertiesOnly } from '@/types/utils';
 
-type BaseAgentParams = Partial<Omit<PropertiesOnly<BaseAgent>, 'messages'>>;
+export interface RunOptions {
+  // Aborting the signal cancels in-flight LLM requests and tool calls
+  signal?: AbortSignal;
+  // Id the LLM usage of the run is recorded under, a new one by default
+  run_id?: string;
+}
+
+// Options of the agent constructors that are not properties of the agent
+export interface AgentOptions {
+  // Attach the default console subscriber to the event bus
+  log_to_console?: boolean;
+}
+
+type BaseAgentParams = Partial<
+  Omit<PropertiesOnly<BaseAgent>, 'messages' | 'events' | 'run_id' | 'llms' | 'resuming'>
+> &
+  AgentOptions;
 
 export abstract class BaseAgent {
   // Unique name of the agent
@@ -17,9 +43,18 @@ export abstract class BaseAgent {
   /*
     Dependencies
    */
+  // LLM of the agent's steps, the tool use profile
   llm: LLM;
+  // LLM planning the agent's work, such as the plan of a PlanningFlow
+  planning_llm: LLM;
+  // LLM of the steps seeing images the llm cannot, the vision profile of llm by default
+  vision_llm?: LLM;
   memory: Memory;
-  state: AGENT_STATE_TYPE = AgentState.IDLE;
+  private _state: AGENT_STATE_TYPE = AgentState.IDLE;
+  /*
+    Lifecycle event bus
+   */
+  events: TypedEventEmitter<AgentEvents> = new TypedEventEmitter();
   /*
     Execution control
    */
@@ -27,6 +62,16 @@ export abstract class BaseAgent {
   current_step: number;
 
   duplicate_threshold: number;
+  /*
+    Usage accounting
+   */
+  usage_tracker: UsageTracker;
+  // Id of the current or last run
+  run_id?: string;
+  // Cumulative tokens the agent may spend, from the LLM settings by default
+  token_budget?: TokenBudget;
+  // The next run continues a restored session, keeping what its budget spent
+  resuming = false;
 
   private config = {
     arbitrary_types_allowed: true,
@@ -38,11 +83,16 @@ export abstract class BaseAgent {
     system_prompt,
     next_step_prompt,
     llm = new LLM({}),
+    planning_llm,
+    vision_llm,
     memory = new Memory(),
     state = AgentState.IDLE,
     max_steps = 10,
     current_step = 0,
     duplicate_threshold = 2,
+    usage_tracker = UsageTracker.getInstance(),
+    token_budget,
+    log_to_console = true,
   }: BaseAgentParams) {
     this.name = name;
     this.description = description;
@@ -50,16 +100,59 @@ export abstract class BaseAgent {
     this.next_step_prompt = next_step_prompt;
 
     this.llm = llm;
+    this.planning_llm = planning_llm ?? llm;
+    this.vision_llm = vision_llm;
     this.memory = memory;
     this.state = state;
 
     this.max_steps = max_steps;
     this.current_step = current_step;
     this.duplicate_threshold = duplicate_threshold;
+    this.usage_tracker = usage_tracker;
+    this.token_budget =
+      token_budget ??
+      (llm.token_budget
+        ? new TokenBudget({
+            limit: llm.token_budget,
+            warning_thresholds: llm.budget_warning_thresholds,
+          })
+        : undefined);
+
+    if (log_to_console) {
+      attach_console_logger(this.events);
+    }
 
     this.initialize_agent();
   }
 
+  get state(): AGENT_STATE_TYPE {
+    return this._state;
+  }
+
+  set state(new_state: AGENT_STATE_TYPE) {
+    const prev_state = this._state;
+    this._state = new_state;
+    if (prev_state !== new_state) {
+      this.emit('state_change', { from: prev_state, to: new_state });
+    }
+  }
+
+  /**
+   * Emit a lifecycle event, filling in the agent name.
+   */
+  emit<K extends keyof AgentEvents>(event: K, payload: Omit<AgentEvents[K], 'agent'>): void {
+    this.events.emit(event, { agent: this.name, ...payload } as AgentEvents[K]);
+  }
+
+  /**
+   * The distinct LLMs of the agent.
+   */
+  get llms(): LLM[] {
+    return Array.from(
+      new Set([this.llm, this.planning_llm, this.vision_llm].filter((llm) => llm !== undefined)),
+    );
+  }
+
   initialize_agent(): BaseAgent {
     if (!(this.llm instanceof LLM)) {
       this.llm = new LLM({ config_name: this.name.toLowerCase() });
@@ -105,38 +198,127 @@ export abstract class BaseAgent {
     this.memory.add_message(message_map[role](content));
   }
 
-  async run(request?: string) {
+  async run(request?: string, { signal, run_id }: RunOptions = {}): Promise<string> {
     if (this.state !== AgentState.IDLE) {
       throw new Error(`Cannot run agent from state: ${this.state}`);
     }
+    throw_if_aborted(signal);
     if (request) {
       this.update_memory({ role: Role.USER, content: request });
     }
+    this.run_id = run_id ?? randomUUID();
+    if (this.token_budget?.scope === BudgetScope.RUN && !this.resuming) {
+      this.token_budget.reset();
+    }
+    this.resuming = false;
+    this.emit('run_start', { request });
+    // Forward token usage of the calls of this run, our LLMs may be shared
+    const current_run_id = this.run_id;
+    const usage_scope = { tracker: this.usage_tracker, agent: this.name, run_id: current_run_id };
+    const stop_forwarding = this.llms.flatMap((llm) => [
+      llm.events.on('token_usage', (usage) => {
+        if (usage.agent === this.name && usage.run_id === current_run_id) {
+          this.emit('token_usage', { ...usage, run_id: current_run_id });
+        }
+      }),
+      llm.events.on('rate_limit_wait', (wait) => this.emit('rate_limit_wait', wait)),
+    ]);
+    const budget_events = this.token_budget?.events;
+    const stop_budget_forwarding = [
+      budget_events?.on('warning', (warning) => this.emit('token_budget_warning', warning)),
+      budget_events?.on('exhausted', (exhausted) => this.emit('token_budget_exhausted', exhausted)),
+    ];
     const results: string[] = [];
-    return await this.state_context(AgentState.RUNNING, async () => {
-      while (this.current_step < this.max_steps && this.state !== AgentState.FINISHED) {
-        this.current_step += 1;
-        // console.log(`Executing step ${this.current_step}/${this.max_steps}`);
-
-        const stepResult = await this.step();
-
-        if (this.is_stuck()) this.handle_stuck_state();
-
-        results.push(`Step ${this.current_step}: ${stepResult}`);
-      }
-      if (this.current_step >= this.max_steps) {
-        this.current_step = 0;
-        this.state = AgentState.IDLE;
-        results.push(`Terminated: Reached max steps (${this.max_steps})`);
-      }
-      // TODO: SANDBOX_CLIENT
-      // await SANDBOX_CLIENT.cleanup();
-
-      return results.join('\n') || 'No steps executed';
+    try {
+      return await with_usage_scope(usage_scope, () =>
+        this.state_context(AgentState.RUNNING, async () => {
+          while (this.current_step < this.max_steps && this.state !== AgentState.FINISHED) {
+            if (signal?.aborted) {
+              this.emit('run_aborted', { step: this.current_step + 1 });
+              throw_if_aborted(signal);
+            }
+            this.current_step += 1;
+            this.emit('step_start', { step: this.current_step, max_steps: this.max_steps });
+
+            let stepResult: string;
+            try {
+              stepResult = await this.step(signal);
+            } catch (e) {
+              if (is_abort_error(e)) {
+                // The interrupted step will be executed again when the run is resumed
+                this.current_step -= 1;
+                this.emit('run_aborted', { step: this.current_step + 1 });
+                throw to_abort_error(e);
+              }
+              throw e;
+            }
+
+            if (this.is_stuck()) this.handle_stuck_state();
+
+            results.push(`Step ${this.current_step}: ${stepResult}`);
+            this.emit('step_end', { step: this.current_step, result: stepResult });
+          }
+          if (this.current_step >= this.max_steps) {
+            this.current_step = 0;
+            this.state = AgentState.IDLE;
+            results.push(`Terminated: Reached max steps (${this.max_steps})`);
+          }
+          // TODO: SANDBOX_CLIENT
+          // await SANDBOX_CLIENT.cleanup();
+
+          const result = results.join('\n') || 'No steps executed';
+          this.emit('run_end', { result, state: this.state, steps: results.length });
+          return result;
+        }),
+      );
+    } finally {
+      stop_forwarding.forEach((stop) => stop());
+      stop_budget_forwarding.forEach((off) => off?.());
+    }
+  }
+
+  /**
+   * Run the agent and yield its progress as it happens: token deltas, thoughts,
+   * tool calls, observations, step results and finally the run result.
+   *
+   * Breaking out of the iteration aborts the run.
+   */
+  run_stream(
+    request?: string,
+    { signal, ...options }: RunOptions = {},
+  ): AsyncIterableIterator<RunStreamEvent> {
+    const controller = new AbortController();
+    const on_abort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', on_abort, { once: true });
+
+    const queue = new AsyncQueue<RunStreamEvent>(() => controller.abort());
+    const unsubscribe = this.events.on_any((event, payload) => {
+      const stream_event = to_stream_event(event, payload);
+      if (stream_event) queue.push(stream_event);
     });
+
+    // The run is aborted through our controller, the other options are the caller's
+    this.run(request, { ...options, signal: controller.signal })
+      .then(
+        () => queue.close(),
+        (e) => queue.fail(e),
+      )
+      .finally(() => {
+        unsubscribe();
+        signal?.removeEventListener('abort', on_abort);
+      });
+    return queue;
   }
 
-  abstract step(): Promise<string>;
+  abstract step(signal?: AbortSignal): Promise<string>;
+
+  /**
+   * Tokens and cost of the LLM calls of this agent, for one run or, by
+   * default, the current or last one.
+   */
+  usage_report(run_id = this.run_id): UsageReport {
+    return this.usage_tracker.report({ agent: this.name, run_id });
+  }
 
   handle_stuck_state(): void {
     const stuckPrompt =
@@ -144,7 +326,7 @@ export abstract class BaseAgent {
 
     this.next_step_prompt = `${stuckPrompt}\n${this.next_step_prompt ?? ''}`;
 
-    // console.warn(`Agent detected stuck state. Added prompt: ${stuckPrompt}`);
+    this.emit('stuck_detected', { prompt: stuckPrompt });
   }
 
   is_stuck(): boolean {
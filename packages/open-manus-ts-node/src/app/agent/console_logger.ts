@@ -0,0 +1,97 @@
+import type { AgentEvents } from '@/app/agent/events';
+import type { TypedEventEmitter } from '@/app/utils/event_emitter';
+
+/**
+ * Subscribe the classic emoji console output to an agent's event bus.
+ * @returns A function that detaches the logger.
+ */
+export function attach_console_logger(events: TypedEventEmitter<AgentEvents>): () => void {
+  let streaming = false;
+  const unsubscribers = [
+    events.on('token', ({ delta }) => {
+      streaming = true;
+      process.stdout.write(delta);
+    }),
+    events.on('llm_response', ({ agent, content, tool_calls }) => {
+      if (streaming) {
+        streaming = false;
+        console.log('');
+      }
+      console.info(`✨ ${agent}'s thoughts: ${content}`);
+      console.info(`🛠️ ${agent} selected ${tool_calls.length} tools to use`);
+      if (tool_calls.length > 0) {
+        console.info(`🧰 Tools being prepared: ${tool_calls.map((call) => call.fn.name)}`);
+        console.info(`🔧 Tool arguments: ${tool_calls[0].fn.args}`);
+      }
+    }),
+    events.on('llm_error', ({ agent, error, token_limit }) => {
+      if (token_limit) {
+        console.error(`🚨 Token limit error: ${error}`);
+      } else {
+        console.error(`🚨 Oops! The ${agent}'s thinking process hit a snag: ${error}`);
+      }
+    }),
+    events.on('tool_call_approval', ({ tool_call, decision }) => {
+      if (decision.type === 'reject') {
+        console.warn(`🚫 Tool '${tool_call.fn.name}' was rejected: ${decision.reason ?? ''}`);
+      } else if (decision.type === 'edit') {
+        console.info(`✏️ Tool '${tool_call.fn.name}' arguments were edited before running`);
+      }
+    }),
+    events.on('tool_call_start', ({ tool_call }) => {
+      console.info(`🔧 Activating tool: '${tool_call.fn.name}'...`);
+    }),
+    events.on('tool_call_result', ({ tool_call, result }) => {
+      console.info(`🎯 Tool '${tool_call.fn.name}' completed its mission! Result: ${result}`);
+    }),
+    events.on('tool_call_error', ({ error }) => {
+      console.error(error);
+    }),
+    events.on('tool_call_repair', ({ tool_call, original, repaired }) => {
+      console.warn(`🩹 Repaired the malformed arguments of '${tool_call.fn.name}'`);
+      console.warn(`   original: ${original}`);
+      console.warn(`   repaired: ${repaired}`);
+    }),
+    events.on('tool_calls_ignored', ({ agent }) => {
+      console.warn(`🤔 Hmm, ${agent} tried to use tools when they weren't available!`);
+    }),
+    events.on('special_tool_finished', ({ name }) => {
+      console.info(`🏁 Special tool '${name}' has completed the task!`);
+    }),
+    events.on('cleanup_start', ({ agent }) => {
+      console.info(`🧹 Cleaning up resources for agent '${agent}'...`);
+    }),
+    events.on('tool_cleanup', ({ tool_name }) => {
+      console.debug(`🧼 Cleaning up tool: ${tool_name}`);
+    }),
+    events.on('tool_cleanup_error', ({ tool_name, error }) => {
+      console.error(`🚨 Error cleaning up tool '${tool_name}': ${error}`);
+    }),
+    events.on('cleanup_end', ({ agent }) => {
+      console.info(`✨ Cleanup complete for agent '${agent}'.`);
+    }),
+    events.on('memory_compacted', ({ before, after, strategy }) => {
+      if (strategy === 'summarize') {
+        // The summary replaces the compacted messages
+        console.info(`🗜️ Compacted ${before - after + 1} messages into a summary`);
+      } else {
+        console.info(`🗜️ Dropped ${before - after} old messages`);
+      }
+    }),
+    events.on('rate_limit_wait', ({ key, waiting }) => {
+      console.log(`⏳ Rate limit of ${key} reached, ${waiting} request(s) waiting`);
+    }),
+    events.on('stuck_detected', ({ prompt }) => {
+      console.warn(`Agent detected stuck state. Added prompt: ${prompt}`);
+    }),
+    events.on('token_budget_warning', ({ agent, used, limit, threshold }) => {
+      console.warn(
+        `💸 ${agent} has used ${Math.round(threshold * 100)}% of its token budget (${used}/${limit})`,
+      );
+    }),
+    events.on('token_budget_exhausted', ({ agent, used, limit }) => {
+      console.warn(`💸 ${agent} has exhausted its token budget (${used}/${limit})`);
+    }),
+  ];
+  return () => unsubscribers.forEach((off) => off());
+}
@@ -0,0 +1,34 @@
+import type { AgentOptions } from '@/app/agent/base';
+import { config } from '@/app/config';
+import { NEXT_STEP_PROMPT, SYSTEM_PROMPT } from '@/app/prompt/data_analysis';
+import { ToolCallAgent } from '@/app/toolcall';
+import type { PropertiesOnly } from '@/types/utils';
+
+/**
+ * An agent specialized in analyzing data and reporting on it.
+ *
+ * It only knows how to terminate by itself, the tools doing the actual work
+ * (code execution, charting...) are provided through `available_tools`,
+ * typically by an MCP server.
+ */
+export class DataAnalysis extends ToolCallAgent {
+  name = 'data_analysis';
+  description =
+    'An analytical agent that uses data analysis tools to explore datasets, compute statistics and build charts and reports.';
+
+  system_prompt = SYSTEM_PROMPT.replace('{directory}', config.workspace_root);
+  next_step_prompt = NEXT_STEP_PROMPT;
+
+  max_observe = 15000;
+  max_steps = 20;
+
+  constructor(params: Partial<PropertiesOnly<DataAnalysis>> & AgentOptions = {}) {
+    super(params);
+    if (params.max_steps) {
+      this.max_steps = params.max_steps;
+    }
+    if (params.max_observe !== undefined) {
+      this.max_observe = params.max_observe;
+    }
+  }
+}
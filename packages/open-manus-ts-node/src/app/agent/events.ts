@@ -0,0 +1,117 @@
+import type { AGENT_STATE_TYPE, Message, TOOL_CHOICE_TYPE, ToolCall } from '@/app/schema';
+import type { TokenUsage } from '@/app/llm';
+import type { ApprovalDecision } from '@/app/tool/approval';
+
+/**
+ * Lifecycle events emitted by an agent.
+ *
+ * Every payload carries the name of the emitting agent so one subscriber can
+ * observe several agents at once.
+ */
+export interface AgentEvents {
+  run_start: { agent: string; request?: string };
+  run_end: { agent: string; result: string; state: AGENT_STATE_TYPE; steps: number };
+  run_aborted: { agent: string; step: number };
+  step_start: { agent: string; step: number; max_steps: number };
+  step_end: { agent: string; step: number; result: string };
+  state_change: { agent: string; from: AGENT_STATE_TYPE; to: AGENT_STATE_TYPE };
+  llm_request: {
+    agent: string;
+    messages: Message[];
+    tools?: any[];
+    tool_choice?: TOOL_CHOICE_TYPE;
+  };
+  token: { agent: string; delta: string };
+  // Piece of a tool call streamed by the LLM, `delta` extends its arguments
+  tool_call_delta: { agent: string; index: number; id?: string; name?: string; delta: string };
+  llm_response: { agent: string; content: string; tool_calls: ToolCall[] };
+  llm_error: { agent: string; error: string; token_limit: boolean };
+  tool_call_approval: { agent: string; tool_call: ToolCall; decision: ApprovalDecision };
+  tool_call_start: { agent: string; tool_call: ToolCall };
+  tool_call_result: { agent: string; tool_call: ToolCall; result: string };
+  tool_call_error: { agent: string; tool_call: ToolCall; error: string };
+  // Malformed arguments of a tool call were repaired before running it
+  tool_call_repair: { agent: string; tool_call: ToolCall; original: string; repaired: string };
+  stuck_detected: { agent: string; prompt: string };
+  // Tool calls returned although tool_choice was none, they are not run
+  tool_calls_ignored: { agent: string; tool_calls: ToolCall[] };
+  special_tool_finished: { agent: string; name: string };
+  cleanup_start: { agent: string };
+  tool_cleanup: { agent: string; tool_name: string };
+  tool_cleanup_error: { agent: string; tool_name: string; error: string };
+  cleanup_end: { agent: string };
+  // `strategy` is the name of the compaction strategy, see CompactionStrategy
+  memory_compacted: { agent: string; before: number; after: number; strategy?: string };
+  // A request of `model` waits for its rate limit, behind `waiting` others
+  rate_limit_wait: { agent: string; model: string; key: string; waiting: number };
+  token_usage: { agent: string; run_id: string } & TokenUsage;
+  // `threshold` is the fraction of the budget that was crossed
+  token_budget_warning: { agent: string; used: number; limit: number; threshold: number };
+  token_budget_exhausted: { agent: string; used: number; limit: number };
+}
+
+export type AgentEventName = keyof AgentEvents;
+
+/**
+ * Events yielded by `BaseAgent.run_stream`.
+ */
+export type RunStreamEvent =
+  | { type: 'token'; agent: string; delta: string }
+  | { type: 'tool_call_delta'; agent: string; index: number; name?: string; delta: string }
+  | { type: 'thought'; agent: string; content: string; tool_calls: ToolCall[] }
+  | { type: 'tool_call'; agent: string; tool_call: ToolCall }
+  | { type: 'observation'; agent: string; tool_call: ToolCall; result: string }
+  | {
+      type: 'tool_call_repair';
+      agent: string;
+      tool_call: ToolCall;
+      original: string;
+      repaired: string;
+    }
+  | { type: 'step'; agent: string; step: number; result: string }
+  | { type: 'result'; agent: string; result: string; state: AGENT_STATE_TYPE };
+
+/**
+ * Map a lifecycle event to the stream event it surfaces as, if any.
+ */
+export function to_stream_event<K extends AgentEventName>(
+  event: K,
+  payload: AgentEvents[K],
+): RunStreamEvent | undefined {
+  switch (event) {
+    case 'token': {
+      const { agent, delta } = payload as AgentEvents['token'];
+      return { type: 'token', agent, delta };
+    }
+    case 'tool_call_delta': {
+      const { agent, index, name, delta } = payload as AgentEvents['tool_call_delta'];
+      return { type: 'tool_call_delta', agent, index, name, delta };
+    }
+    case 'llm_response': {
+      const { agent, content, tool_calls } = payload as AgentEvents['llm_response'];
+      return { type: 'thought', agent, content, tool_calls };
+    }
+    case 'tool_call_start': {
+      const { agent, tool_call } = payload as AgentEvents['tool_call_start'];
+      return { type: 'tool_call', agent, tool_call };
+    }
+    case 'tool_call_result': {
+      const { agent, tool_call, result } = payload as AgentEvents['tool_call_result'];
+      return { type: 'observation', agent, tool_call, result };
+    }
+    case 'tool_call_repair': {
+      const { agent, tool_call, original, repaired } = payload as AgentEvents['tool_call_repair'];
+      return { type: 'tool_call_repair', agent, tool_call, original, repaired };
+    }
+    case 'step_end': {
+      const { agent, step, result } = payload as AgentEvents['step_end'];
+      return { type: 'step', agent, step, result };
+    }
+    case 'run_end': {
+      const { agent, result, state } = payload as AgentEvents['run_end'];
+      return { type: 'result', agent, result, state };
+    }
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,179 @@
+import type { AgentOptions } from '@/app/agent/base';
+import { config } from '@/app/config';
+import { NEXT_STEP_PROMPT, SYSTEM_PROMPT } from '@/app/prompt/manus';
+import { MCPClientTool, MCPClients } from '@/app/tool/mcp';
+import { Terminate } from '@/app/tool/terminate';
+import { ToolCollection } from '@/app/tool/tool_collection';
+import { ToolCallAgent } from '@/app/toolcall';
+import type { MCPServerSnapshot } from '@/app/session';
+import type { PropertiesOnly } from '@/types/utils';
+
+/**
+ * A versatile general-purpose agent with support for both local and MCP tools.
+ *
+ * Every server of `config.mcp_config.servers` is connected before the first
+ * step, and its tools are added next to the local ones. Connections are
+ * closed when a run ends, and re-established by the next one.
+ */
+export class Manus extends ToolCallAgent {
+  name = 'Manus';
+  description =
+    'A versatile agent that can solve various tasks using multiple tools including MCP-based tools';
+
+  system_prompt = SYSTEM_PROMPT.replace('{directory}', config.workspace_root);
+  next_step_prompt = NEXT_STEP_PROMPT;
+
+  max_observe = 10000;
+  max_steps = 20;
+
+  // MCP clients for remote tool access
+  mcp_clients: MCPClients;
+  // Server id to the URL or command it was connected with
+  connected_servers: Map<string, string> = new Map();
+  private _initialized = false;
+
+  constructor({
+    mcp_clients = new MCPClients(),
+    available_tools = new ToolCollection({ tools: [new Terminate()] }),
+    ...params
+  }: Partial<PropertiesOnly<Manus>> & AgentOptions = {}) {
+    super({ ...params, available_tools });
+    this.mcp_clients = mcp_clients;
+    if (params.max_steps) {
+      this.max_steps = params.max_steps;
+    }
+    if (params.max_observe !== undefined) {
+      this.max_observe = params.max_observe;
+    }
+  }
+
+  /**
+   * Create and initialize a Manus instance, connected to its MCP servers.
+   */
+  static async create(params: Partial<PropertiesOnly<Manus>> & AgentOptions = {}): Promise<Manus> {
+    const instance = new Manus(params);
+    await instance.initialize_mcp_servers();
+    return instance;
+  }
+
+  get initialized(): boolean {
+    return this._initialized;
+  }
+
+  /**
+   * Initialize connections to configured MCP servers. A server that fails to
+   * connect is logged and skipped, the agent works with the others.
+   */
+  async initialize_mcp_servers(): Promise<void> {
+    for (const [server_id, server_config] of config.mcp_config.servers) {
+      try {
+        if (server_config.type === 'sse') {
+          if (server_config.url) {
+            await this.connect_mcp_server(server_config.url, server_id);
+          }
+        } else if (server_config.type === 'stdio') {
+          if (server_config.command) {
+            await this.connect_mcp_server(server_config.command, server_id, {
+              use_stdio: true,
+              stdio_args: server_config.args,
+            });
+          }
+        } else {
+          console.warn(`Unsupported MCP server type '${server_config.type}' for ${server_id}`);
+        }
+      } catch (e) {
+        console.error(`🚨 Failed to connect to MCP server ${server_id}: ${e}`);
+      }
+    }
+    this._initialized = true;
+  }
+
+  /**
+   * Connect to an MCP server and add its tools.
+   */
+  async connect_mcp_server(
+    server_url: string,
+    server_id: string = '',
+    { use_stdio = false, stdio_args = [] }: { use_stdio?: boolean; stdio_args?: string[] } = {},
+  ): Promise<void> {
+    const id = server_id || server_url;
+    if (use_stdio) {
+      await this.mcp_clients.connect_stdio(server_url, stdio_args, id);
+      console.info(`🔌 Connected to MCP server ${id} using command ${server_url}`);
+    } else {
+      await this.mcp_clients.connect_sse(server_url, id);
+      console.info(`🔌 Connected to MCP server ${id} at ${server_url}`);
+    }
+    this.connected_servers.set(id, server_url);
+
+    // Update available tools with only the new tools from this server
+    const new_tools = this.mcp_clients.tools.filter(
+      (tool) => (tool as MCPClientTool).server_id === id,
+    );
+    this.available_tools.add_tools(new_tools);
+  }
+
+  /**
+   * Disconnect from an MCP server, or all of them, and remove their tools.
+   */
+  async disconnect_mcp_server(server_id: string = ''): Promise<void> {
+    await this.mcp_clients.disconnect(server_id || undefined);
+    if (server_id) {
+      this.connected_servers.delete(server_id);
+    } else {
+      this.connected_servers.clear();
+    }
+
+    // Rebuild available tools without the disconnected server's tools
+    const base_tools = this.available_tools.tools.filter(
+      (tool) => !(tool instanceof MCPClientTool),
+    );
+    this.available_tools = new ToolCollection({ tools: base_tools });
+    this.available_tools.add_tools(this.mcp_clients.tools);
+  }
+
+  /**
+   * Reconnect the MCP servers of a restored session, instead of connecting
+   * the configured ones on the first step.
+   */
+  async restore_mcp_servers(servers: MCPServerSnapshot[]): Promise<void> {
+    for (const server of servers) {
+      if (this.connected_servers.has(server.server_id)) {
+        continue;
+      }
+      try {
+        if (server.type === 'sse' && server.url) {
+          await this.connect_mcp_server(server.url, server.server_id);
+        } else if (server.type === 'stdio' && server.command) {
+          await this.connect_mcp_server(server.command, server.server_id, {
+            use_stdio: true,
+            stdio_args: server.args,
+          });
+        } else {
+          console.warn(`Cannot reconnect MCP server ${server.server_id}: invalid config`);
+        }
+      } catch (e) {
+        console.error(`🚨 Failed to reconnect to MCP server ${server.server_id}: ${e}`);
+      }
+    }
+    this._initialized = true;
+  }
+
+  async think(signal?: AbortSignal): Promise<boolean> {
+    if (!this._initialized) {
+      await this.initialize_mcp_servers();
+    }
+    return await super.think(signal);
+  }
+
+  /**
+   * Clean up Manus agent resources.
+   */
+  async cleanup(): Promise<void> {
+    await super.cleanup();
+    if (this._initialized) {
+      await this.disconnect_mcp_server();
+      this._initialized = false;
+    }
+  }
+}
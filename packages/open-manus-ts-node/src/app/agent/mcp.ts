@@ -1,3 +1,4 @@
+import type { AgentOptions, RunOptions } from '@/app/agent/base';
 import { ToolCallAgent } from '@/app/toolcall';
 import { MULTIMEDIA_RESPONSE_PROMPT, NEXT_STEP_PROMPT, SYSTEM_PROMPT } from '@/app/prompt/mcp';
 import { AgentState, Message } from '@/app/schema';
@@ -32,7 +33,10 @@ export class MCPAgent extends ToolCallAgent {
   // Special tool names that should trigger termination
   special_tool_names: string[] = ['terminate'];
 
-  constructor(params: Partial<PropertiesOnly<MCPAgent>> = {}) {
+  // Notes raised while tools run, added once all tool results are in memory
+  private _pending_system_messages: Message[] = [];
+
+  constructor(params: Partial<PropertiesOnly<MCPAgent>> & AgentOptions = {}) {
     const mcp_clients = params.mcp_clients || new MCPClients();
     super({
       ...params,
@@ -172,7 +176,7 @@ export class MCPAgent extends ToolCallAgent {
   /**
    * Process current state and decide next action.
    */
-  async think(): Promise<boolean> {
+  async think(signal?: AbortSignal): Promise<boolean> {
     // Check MCP session and tools availability
     if (this.mcp_clients.clients.size === 0 || this.mcp_clients.tool_map.size === 0) {
       console.info('MCP service is no longer available, ending interaction');
@@ -192,7 +196,7 @@ export class MCPAgent extends ToolCallAgent {
     }
 
     // Use the parent class's think method
-    return await super.think();
+    return await super.think(signal);
   }
 
   /**
@@ -204,12 +208,24 @@ export class MCPAgent extends ToolCallAgent {
 
     // Handle multimedia responses
     if (result && typeof result === 'object' && 'base64_image' in result && result.base64_image) {
-      this.memory.add_message(
+      this._pending_system_messages.push(
         Message.system_message(MULTIMEDIA_RESPONSE_PROMPT.replace('{tool_name}', name)),
       );
     }
   }
 
+  /**
+   * Execute tool calls, then add the notes they raised. Adding them earlier
+   * would separate the tool calls from their results in the transcript.
+   */
+  async act(signal?: AbortSignal): Promise<string> {
+    try {
+      return await super.act(signal);
+    } finally {
+      this.memory.add_messages(this._pending_system_messages.splice(0));
+    }
+  }
+
   /**
    * Determine if tool execution should finish the agent.
    */
@@ -230,9 +246,9 @@ export class MCPAgent extends ToolCallAgent {
   /**
    * Run the agent with cleanup when done.
    */
-  async run(request?: string): Promise<string> {
+  async run(request?: string, options?: RunOptions): Promise<string> {
     try {
-      const result = await super.run(request);
+      const result = await super.run(request, options);
       return result;
     } finally {
       await this.cleanup();
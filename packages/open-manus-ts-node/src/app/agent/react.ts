@@ -1,13 +1,13 @@
 import { BaseAgent } from '@/app/agent/base';
 
 export abstract class ReActAgent extends BaseAgent {
-  abstract think(): Promise<boolean>;
-  abstract act(): Promise<string>;
-  async step(): Promise<string> {
-    const should_act = await this.think();
+  abstract think(signal?: AbortSignal): Promise<boolean>;
+  abstract act(signal?: AbortSignal): Promise<string>;
+  async step(signal?: AbortSignal): Promise<string> {
+    const should_act = await this.think(signal);
     if (!should_act) {
       return 'Thinking complete - no action needed';
     }
-    return await this.act();
+    return await this.act(signal);
   }
 }
@@ -0,0 +1,189 @@
+/**
+ * What a model supports, deciding how the LLM builds its requests.
+ */
+export interface ModelCapabilities {
+  // Images can be sent in messages, they are dropped otherwise
+  vision: boolean;
+  tool_calling: boolean;
+  // Reasoning model taking max_completion_tokens and no temperature
+  reasoning: boolean;
+  context_window?: number;
+  // Largest completion the model produces, max_tokens is capped to it
+  max_output_tokens?: number;
+  // Usage can be requested at the end of streamed responses
+  streaming_usage: boolean;
+  // JSON output can be enforced with response_format
+  json_mode: boolean;
+}
+
+export interface CapabilityEntry {
+  // Model names the entry applies to, a glob where `*` matches anything
+  pattern: string | RegExp;
+  capabilities: Partial<ModelCapabilities>;
+}
+
+// Capabilities of a model no entry matches
+const DEFAULT_CAPABILITIES: ModelCapabilities = {
+  vision: false,
+  tool_calling: true,
+  reasoning: false,
+  streaming_usage: false,
+  json_mode: false,
+};
+
+const OPENAI = { tool_calling: true, streaming_usage: true, json_mode: true };
+const O_SERIES = { ...OPENAI, vision: true, reasoning: true };
+
+// Known models, general entries first: later matches override earlier ones
+const BUILTIN_ENTRIES: CapabilityEntry[] = [
+  {
+    pattern: 'gpt-3.5-turbo*',
+    capabilities: { ...OPENAI, context_window: 16385, max_output_tokens: 4096 },
+  },
+  { pattern: 'gpt-4*', capabilities: { ...OPENAI, context_window: 8192, max_output_tokens: 8192 } },
+  {
+    pattern: 'gpt-4-turbo*',
+    capabilities: { vision: true, context_window: 128000, max_output_tokens: 4096 },
+  },
+  {
+    pattern: 'gpt-4-vision-preview',
+    capabilities: {
+      vision: true,
+      tool_calling: false,
+      json_mode: false,
+      context_window: 128000,
+      max_output_tokens: 4096,
+    },
+  },
+  {
+    pattern: 'gpt-4o*',
+    capabilities: { vision: true, context_window: 128000, max_output_tokens: 16384 },
+  },
+  {
+    pattern: 'gpt-4.1*',
+    capabilities: { vision: true, context_window: 1047576, max_output_tokens: 32768 },
+  },
+  {
+    pattern: 'gpt-5*',
+    capabilities: { ...O_SERIES, context_window: 400000, max_output_tokens: 128000 },
+  },
+  {
+    pattern: 'o1*',
+    capabilities: { ...O_SERIES, context_window: 200000, max_output_tokens: 100000 },
+  },
+  {
+    pattern: 'o1-mini*',
+    capabilities: {
+      vision: false,
+      tool_calling: false,
+      json_mode: false,
+      context_window: 128000,
+      max_output_tokens: 65536,
+    },
+  },
+  {
+    pattern: 'o3*',
+    capabilities: { ...O_SERIES, context_window: 200000, max_output_tokens: 100000 },
+  },
+  { pattern: 'o3-mini*', capabilities: { vision: false } },
+  {
+    pattern: 'o4-mini*',
+    capabilities: { ...O_SERIES, context_window: 200000, max_output_tokens: 100000 },
+  },
+  {
+    pattern: 'claude*',
+    capabilities: {
+      vision: true,
+      tool_calling: true,
+      streaming_usage: true,
+      context_window: 200000,
+      max_output_tokens: 8192,
+    },
+  },
+  { pattern: 'claude-3-opus*', capabilities: { max_output_tokens: 4096 } },
+  { pattern: 'claude-3-haiku*', capabilities: { max_output_tokens: 4096 } },
+  { pattern: 'claude-3-7-sonnet*', capabilities: { max_output_tokens: 64000 } },
+  { pattern: 'claude-sonnet-4*', capabilities: { max_output_tokens: 64000 } },
+  { pattern: 'claude-opus-4*', capabilities: { max_output_tokens: 32000 } },
+  {
+    pattern: 'qwen*',
+    capabilities: { ...OPENAI, context_window: 131072, max_output_tokens: 8192 },
+  },
+  { pattern: 'qwen-max*', capabilities: { context_window: 32768 } },
+  { pattern: 'qwen-turbo*', capabilities: { context_window: 1000000 } },
+  { pattern: 'qwen-long*', capabilities: { context_window: 10000000 } },
+  { pattern: 'qwen*-vl*', capabilities: { vision: true } },
+  { pattern: 'qwen*-omni*', capabilities: { vision: true } },
+  { pattern: 'qvq*', capabilities: { ...OPENAI, vision: true, context_window: 131072 } },
+  {
+    pattern: 'deepseek*',
+    capabilities: { ...OPENAI, context_window: 65536, max_output_tokens: 8192 },
+  },
+  { pattern: 'deepseek-reasoner*', capabilities: { json_mode: false, max_output_tokens: 32768 } },
+  {
+    pattern: 'gemini*',
+    capabilities: {
+      ...OPENAI,
+      vision: true,
+      context_window: 1048576,
+      max_output_tokens: 8192,
+    },
+  },
+  { pattern: 'llava*', capabilities: { vision: true, tool_calling: false } },
+];
+
+/**
+ * Case-insensitive RegExp of a model name glob, where `*` matches anything.
+ */
+export function glob_to_regexp(pattern: string): RegExp {
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * Capabilities of models, looked up by model name pattern.
+ *
+ * Every entry matching a model applies, in registration order, so specific
+ * entries registered after general ones refine them. Names with a provider
+ * prefix such as `openai/gpt-4o` also match the entries of `gpt-4o`.
+ */
+export class CapabilityRegistry {
+  private static instance: CapabilityRegistry | null = null;
+  private _entries: Array<{ pattern: RegExp; capabilities: Partial<ModelCapabilities> }> = [];
+
+  constructor(entries: CapabilityEntry[] = BUILTIN_ENTRIES) {
+    entries.forEach(({ pattern, capabilities }) => this.register(pattern, capabilities));
+  }
+
+  static getInstance(): CapabilityRegistry {
+    if (!CapabilityRegistry.instance) {
+      CapabilityRegistry.instance = new CapabilityRegistry();
+    }
+    return CapabilityRegistry.instance;
+  }
+
+  /**
+   * Add an entry, taking precedence over the ones already registered.
+   */
+  register(pattern: string | RegExp, capabilities: Partial<ModelCapabilities>): this {
+    this._entries.push({
+      pattern: typeof pattern === 'string' ? glob_to_regexp(pattern) : pattern,
+      capabilities,
+    });
+    return this;
+  }
+
+  resolve(model: string, overrides: Partial<ModelCapabilities> = {}): ModelCapabilities {
+    const names = [model, model.slice(model.lastIndexOf('/') + 1)];
+    const capabilities = { ...DEFAULT_CAPABILITIES };
+    for (const entry of this._entries) {
+      if (names.some((name) => entry.pattern.test(name))) {
+        Object.assign(capabilities, entry.capabilities);
+      }
+    }
+    return Object.assign(capabilities, overrides);
+  }
+}
@@ -0,0 +1,139 @@
+import type { LLM } from '@/app/llm';
+import { COMPACTION_SYSTEM_PROMPT, SUMMARY_MESSAGE_PREFIX } from '@/app/prompt/compaction';
+import type { CompactionStrategy } from '@/app/schema';
+import { Memory, Message } from '@/app/schema';
+
+// Tool outputs longer than this are cut when rendered for the summarizer
+const MAX_RENDERED_CONTENT = 2000;
+
+/**
+ * Split messages into the pinned ones, the older units that may be compacted
+ * and the most recent messages that are always kept verbatim. Tool call units
+ * are never split.
+ */
+function partition(
+  messages: Message[],
+  keep_recent: number,
+): { pinned: Set<number>; older: number[][]; recent: number[] } {
+  const pinned = Memory.pinned_indexes(messages);
+  const units = Memory.group_units(messages).filter((unit) => !unit.some((i) => pinned.has(i)));
+  let split = units.length;
+  let recent_count = 0;
+  while (split > 0 && recent_count + units[split - 1].length <= keep_recent) {
+    split -= 1;
+    recent_count += units[split].length;
+  }
+  return { pinned, older: units.slice(0, split), recent: units.slice(split).flat() };
+}
+
+/**
+ * Base for strategies triggered by an estimated token budget.
+ */
+abstract class TokenBudgetCompaction implements CompactionStrategy {
+  llm: LLM;
+  // Estimated size of the memory, in tokens, above which it is compacted
+  max_tokens: number;
+  // Number of latest unpinned messages never compacted
+  keep_recent: number;
+
+  constructor({
+    llm,
+    max_tokens = 32000,
+    keep_recent = 10,
+  }: {
+    llm: LLM;
+    max_tokens?: number;
+    keep_recent?: number;
+  }) {
+    this.llm = llm;
+    this.max_tokens = max_tokens;
+    this.keep_recent = keep_recent;
+  }
+
+  should_compact(messages: Message[]): boolean {
+    return this.llm.count_message_tokens(messages) > this.max_tokens;
+  }
+
+  abstract compact(messages: Message[], signal?: AbortSignal): Promise<Message[]>;
+}
+
+/**
+ * Replace older turns by a single summary written by the LLM.
+ */
+export class SummarizingCompaction extends TokenBudgetCompaction {
+  readonly name = 'summarize';
+  system_prompt: string;
+
+  constructor({
+    system_prompt = COMPACTION_SYSTEM_PROMPT,
+    ...params
+  }: ConstructorParameters<typeof TokenBudgetCompaction>[0] & { system_prompt?: string }) {
+    super(params);
+    this.system_prompt = system_prompt;
+  }
+
+  async compact(messages: Message[], signal?: AbortSignal): Promise<Message[]> {
+    const { pinned, older: older_units, recent } = partition(messages, this.keep_recent);
+    const older = older_units.flat();
+    if (older.length === 0) {
+      return messages;
+    }
+
+    const transcript = older.map((i) => SummarizingCompaction.render(messages[i])).join('\n\n');
+    const summary = await this.llm.ask({
+      messages: [Message.user_message(transcript)],
+      system_msgs: [Message.system_message(this.system_prompt)],
+      stream: false,
+      signal,
+    });
+
+    const summary_message = Message.user_message(`${SUMMARY_MESSAGE_PREFIX}\n${summary}`);
+    return [
+      ...messages.filter((_, i) => pinned.has(i)),
+      summary_message,
+      ...recent.map((i) => messages[i]),
+    ];
+  }
+
+  /**
+   * Render a message as plain text for the summarizer.
+   */
+  static render(message: Message): string {
+    const parts: string[] = [];
+    if (message.content) {
+      const content =
+        message.content.length > MAX_RENDERED_CONTENT
+          ? `${message.content.slice(0, MAX_RENDERED_CONTENT)}...`
+          : message.content;
+      parts.push(content);
+    }
+    for (const call of message.tool_calls ?? []) {
+      parts.push(`[called ${call.fn.name}(${call.fn.args})]`);
+    }
+    if (message.base64_image) {
+      parts.push('[image]');
+    }
+    const speaker = message.role === 'tool' ? `tool ${message.name ?? ''}`.trim() : message.role;
+    return `${speaker}: ${parts.join('\n')}`;
+  }
+}
+
+/**
+ * Drop the oldest unpinned messages until the memory fits the budget again.
+ * Cheaper than summarizing, as it needs no LLM call, but loses information.
+ */
+export class TruncatingCompaction extends TokenBudgetCompaction {
+  readonly name = 'truncate';
+  async compact(messages: Message[]): Promise<Message[]> {
+    const { older } = partition(messages, this.keep_recent);
+    const dropped = new Set<number>();
+    for (const unit of older) {
+      const kept = messages.filter((_, j) => !dropped.has(j));
+      if (this.llm.count_message_tokens(kept) <= this.max_tokens) {
+        break;
+      }
+      unit.forEach((i) => dropped.add(i));
+    }
+    return messages.filter((_, i) => !dropped.has(i));
+  }
+}
@@ -1,21 +1,105 @@
 import { fileURLToPath } from 'node:url';
 import { dirname, join } from 'node:path';
-import manusConfig from '@/config/config';
+import manusConfig, { type LLMConfigMeta } from '@/config/config';
 import mcpExample from '@/config/mcp.example';
+import type { ModelCapabilities } from '@/app/capabilities';
+import type { CASSETTE_MODE_TYPE } from '@/app/provider/cassette';
+import type { ScriptStep } from '@/app/provider/scripted';
+import { ValueError } from '@/app/utils/error';
 
 const __filename = fileURLToPath(import.meta.url);
 const PROJECT_ROOT = dirname(__filename);
 const WORKSPACE_ROOT = join(PROJECT_ROOT, 'workspace');
 
+/**
+ * Price of a model in USD per million tokens.
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  // Input tokens served from the provider's prompt cache, defaults to the input price
+  cached_input?: number;
+}
+
+/**
+ * How failed LLM calls are retried, waits in seconds.
+ */
+export interface RetrySettings {
+  // Attempts per call, the first one included
+  max_attempts?: number;
+  initial_wait?: number;
+  max_wait?: number;
+  // Factor the wait grows by after each retry
+  multiplier?: number;
+  // Fraction of each wait drawn at random
+  jitter?: number;
+}
+
+/**
+ * Opt-in disk cache of LLM responses, for re-running identical prompts.
+ */
+export interface CacheSettings {
+  enabled?: boolean;
+  // Seconds a response is served for, a week by default
+  ttl?: number;
+  // Megabytes the cache may take, 100 by default
+  max_size?: number;
+  // Defaults to llm_cache in the workspace
+  dir?: string;
+}
+
+/**
+ * Limits of an endpoint and model, shared by every LLM calling them. Requests
+ * over a limit wait their turn instead of failing.
+ */
+export interface RateLimitSettings {
+  requests_per_minute?: number;
+  // Estimated before each call, then corrected to the usage the provider reports
+  tokens_per_minute?: number;
+  // Requests in flight at once
+  max_concurrent?: number;
+}
+
+// Settings of an llm entry holding objects, the other objects in it are named profiles
+const LLM_OBJECT_SETTINGS = ['capabilities', 'pricing', 'retry', 'cache', 'rate_limit'];
+
 export class LLMSettings {
   public model: string;
   public base_url: string;
   public api_key: string;
+  // Provider adapter: openai (default, and compatible servers), azure, anthropic, ollama or scripted
   public api_type: string;
   public api_version: string;
   public max_tokens: number;
+  // Largest prompt of a single request, defaults to the context window minus max_tokens
   public max_input_tokens?: number;
+  // Overrides of what the capability registry says about the model
+  public capabilities?: Partial<ModelCapabilities>;
+  // Tokens, input and completion, an agent may spend in total per run
+  public token_budget?: number;
+  // Fractions of the token budget at which a warning is emitted
+  public budget_warning_thresholds?: number[];
   public temperature: number;
+  // Prices by model name, calls to a model missing from the table cost nothing
+  public pricing?: Record<string, ModelPricing>;
+  // Cassette file recording requests and responses, see cassette_mode
+  public cassette?: string;
+  // record: call the provider and write the cassette, replay (default): serve it offline
+  public cassette_mode?: CASSETTE_MODE_TYPE;
+  // Responses of the scripted api_type, one per request
+  public script?: ScriptStep[];
+  // Names of the profiles answering, in order, when this model fails
+  public fallbacks?: string[];
+  // Profile `ask_with_image` sends images to, defaults to vision when configured
+  public vision_profile?: string;
+  // Retries of rate limited, failed and timed out calls, auth and bad requests are never retried
+  public retry?: RetrySettings;
+  // Responses are served from disk for requests already answered
+  public cache?: CacheSettings;
+  // Requests wait for the limits of the endpoint and model, none by default
+  public rate_limit?: RateLimitSettings;
+  // tiktoken encoding name, or path of a HuggingFace tokenizer.json, defaults to the model's
+  public tokenizer?: string;
   constructor({
     model,
     base_url,
@@ -24,7 +108,20 @@ export class LLMSettings {
     api_version,
     max_tokens = 4096,
     max_input_tokens,
+    capabilities,
+    token_budget,
+    budget_warning_thresholds,
     temperature = 1,
+    pricing = {},
+    cassette,
+    cassette_mode,
+    script,
+    fallbacks = [],
+    vision_profile,
+    retry = {},
+    cache,
+    rate_limit,
+    tokenizer,
   }: LLMSettings) {
     this.model = model;
     this.base_url = base_url;
@@ -33,7 +130,20 @@ export class LLMSettings {
     this.api_version = api_version;
     this.max_tokens = max_tokens;
     this.max_input_tokens = max_input_tokens;
+    this.capabilities = capabilities;
+    this.token_budget = token_budget;
+    this.budget_warning_thresholds = budget_warning_thresholds;
     this.temperature = temperature;
+    this.pricing = pricing;
+    this.cassette = cassette;
+    this.cassette_mode = cassette_mode;
+    this.script = script;
+    this.fallbacks = fallbacks;
+    this.vision_profile = vision_profile;
+    this.retry = retry;
+    this.cache = cache;
+    this.rate_limit = rate_limit;
+    this.tokenizer = tokenizer;
   }
 }
 
@@ -235,17 +345,32 @@ export class Config {
   private load_initial_config() {
     const base_llM = manusConfig.llm;
 
-    // llm settings
-    const default_settings = new LLMSettings({
-      model: base_llM.model,
-      base_url: base_llM.base_url,
-      api_key: base_llM.api_key,
-      max_tokens: base_llM.max_tokens ?? 4096,
-      max_input_tokens: base_llM.max_input_tokens ?? undefined,
-      temperature: base_llM.temperature ?? 1.0,
-      api_type: base_llM.api_type ?? '',
-      api_version: base_llM.api_version ?? '',
-    });
+    // llm settings: the default, then the named profiles nested in it
+    const llm_settings: Record<string, LLMSettings> = {
+      default: Config.load_llm_settings(base_llM),
+    };
+    for (const [name, profile] of Object.entries(base_llM)) {
+      if (
+        LLM_OBJECT_SETTINGS.includes(name) ||
+        !profile ||
+        typeof profile !== 'object' ||
+        Array.isArray(profile)
+      ) {
+        continue;
+      }
+      llm_settings[name] = Config.load_llm_settings({
+        ...base_llM,
+        // A profile declares its own chain rather than reusing the default's
+        fallbacks: undefined,
+        ...(profile as Partial<LLMConfigMeta>),
+      });
+    }
+    for (const [name, settings] of Object.entries(llm_settings)) {
+      const missing = settings.fallbacks?.find((fallback) => !llm_settings[fallback]);
+      if (missing) {
+        throw new ValueError(`Fallback '${missing}' of LLM profile '${name}' is not configured`);
+      }
+    }
     // browser setting
     const browser_config = manusConfig.browser;
     let browser_settings;
@@ -299,7 +424,7 @@ export class Config {
     }
 
     const config_dict = {
-      llm: { default: default_settings },
+      llm: llm_settings,
       sandbox: sandbox_settings,
       browser_config: browser_settings,
       search_config: search_settings,
@@ -311,6 +436,31 @@ export class Config {
     this._config = new AppConfig(config_dict);
   }
 
+  private static load_llm_settings(entry: LLMConfigMeta): LLMSettings {
+    return new LLMSettings({
+      model: entry.model,
+      base_url: entry.base_url,
+      api_key: entry.api_key,
+      max_tokens: entry.max_tokens ?? 4096,
+      max_input_tokens: entry.max_input_tokens ?? undefined,
+      capabilities: entry.capabilities,
+      token_budget: entry.token_budget,
+      budget_warning_thresholds: entry.budget_warning_thresholds,
+      temperature: entry.temperature ?? 1.0,
+      api_type: entry.api_type ?? '',
+      api_version: entry.api_version ?? '',
+      pricing: entry.pricing ?? {},
+      cassette: entry.cassette,
+      cassette_mode: entry.cassette_mode,
+      retry: entry.retry,
+      cache: entry.cache,
+      rate_limit: entry.rate_limit,
+      tokenizer: entry.tokenizer,
+      fallbacks: entry.fallbacks,
+      vision_profile: entry.vision_profile,
+    });
+  }
+
   get llm() {
     return this._config.llm;
   }
@@ -333,10 +483,10 @@ export class Config {
     return this._config.daytona_config!;
   }
   get workspace_root() {
-    return PROJECT_ROOT;
+    return WORKSPACE_ROOT;
   }
   get root_path() {
-    return WORKSPACE_ROOT;
+    return PROJECT_ROOT;
   }
 }
 
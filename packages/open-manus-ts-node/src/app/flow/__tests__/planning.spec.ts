@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { LLMSettings, config } from '@/app/config';
+import { PlanningFlow } from '@/app/flow/planning';
+import { LLM } from '@/app/llm';
+import type { ScriptStep, ScriptedProvider } from '@/app/provider/scripted';
+import { AgentState } from '@/app/schema';
+import { PlanStepStatus } from '@/app/tool/planning';
+import { ToolCallAgent } from '@/app/toolcall';
+
+const THINK: ScriptStep = { content: 'Looking into it' };
+const TERMINATE: ScriptStep = {
+  content: 'Done',
+  tool_calls: [{ name: 'terminate', arguments: { status: 'success' } }],
+};
+
+function scripted_llm(config_name: string, script: ScriptStep[]): LLM {
+  return new LLM({
+    config_name,
+    llm_config: new LLMSettings({
+      ...config.llm['default'],
+      api_type: 'scripted',
+      model: 'scripted-model',
+      script,
+    }),
+  });
+}
+
+describe('PlanningFlow', () => {
+  let executor: ToolCallAgent;
+  let flow: PlanningFlow;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'info').mockImplementation(() => undefined);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const planner = scripted_llm('flow_planner', [
+      {
+        tool_calls: [
+          {
+            name: 'planning',
+            arguments: { command: 'create', title: 'Task', steps: ['Look around', 'Report'] },
+          },
+        ],
+      },
+      { content: 'Both steps are done' },
+    ]);
+    // The first step takes both steps the executor has, the second one a single step
+    executor = new ToolCallAgent({
+      name: 'executor',
+      llm: scripted_llm('flow_executor', [THINK, TERMINATE, TERMINATE]),
+      max_steps: 2,
+      log_to_console: false,
+    });
+    flow = new PlanningFlow({ agents: { executor }, llm: planner, plan_id: 'plan_test' });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test('runs each step of the plan as a fresh run of the executor', async () => {
+    const result = await flow.execute('Do the task');
+
+    expect(flow.plan?.steps).toEqual(['Look around', 'Report']);
+    expect(flow.plan?.step_statuses).toEqual([PlanStepStatus.COMPLETED, PlanStepStatus.COMPLETED]);
+    expect(result.split('\n').filter((line) => /^(?:Step \d|Terminated)/.test(line))).toEqual([
+      'Step 1: Looking into it',
+      expect.stringMatching(/^Step 2: /),
+      expect.stringMatching(/^Step 1: /),
+    ]);
+    expect(result).toMatch(/Plan completed:\n\nBoth steps are done$/);
+    expect((executor.llm.provider as ScriptedProvider).requests).toHaveLength(3);
+  });
+
+  test('runs a step with an executor left in another state', async () => {
+    executor.state = AgentState.FINISHED;
+    await flow.execute('Do the task');
+    expect(flow.plan?.step_statuses).toEqual([PlanStepStatus.COMPLETED, PlanStepStatus.COMPLETED]);
+  });
+});
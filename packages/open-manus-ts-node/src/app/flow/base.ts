@@ -0,0 +1,57 @@
+import type { BaseAgent, RunOptions } from '@/app/agent/base';
+import { ValueError } from '@/app/utils/error';
+
+export type FlowAgents = BaseAgent | BaseAgent[] | Record<string, BaseAgent>;
+
+export interface BaseFlowParams {
+  agents: FlowAgents;
+  // Key of the agent used when no other one is asked for, the first one by default
+  primary_agent_key?: string;
+}
+
+/**
+ * Base class for execution flows supporting multiple agents.
+ */
+export abstract class BaseFlow {
+  agents: Map<string, BaseAgent>;
+  primary_agent_key: string;
+
+  constructor({ agents, primary_agent_key }: BaseFlowParams) {
+    // Handle different ways of providing agents
+    if (Array.isArray(agents)) {
+      this.agents = new Map(agents.map((agent, i) => [`agent_${i}`, agent]));
+    } else if ('run' in agents && typeof agents.run === 'function') {
+      this.agents = new Map([['default', agents as BaseAgent]]);
+    } else {
+      this.agents = new Map(Object.entries(agents as Record<string, BaseAgent>));
+    }
+    if (this.agents.size === 0) {
+      throw new ValueError('A flow needs at least one agent');
+    }
+
+    this.primary_agent_key = primary_agent_key ?? this.agents.keys().next().value!;
+    if (!this.agents.has(this.primary_agent_key)) {
+      throw new ValueError(`Unknown primary agent: ${this.primary_agent_key}`);
+    }
+  }
+
+  /**
+   * Get the primary agent for the flow.
+   */
+  get primary_agent(): BaseAgent {
+    return this.agents.get(this.primary_agent_key)!;
+  }
+
+  get_agent(key: string): BaseAgent | undefined {
+    return this.agents.get(key);
+  }
+
+  add_agent(key: string, agent: BaseAgent): void {
+    this.agents.set(key, agent);
+  }
+
+  /**
+   * Execute the flow with the given input.
+   */
+  abstract execute(input_text: string, options?: RunOptions): Promise<string>;
+}
@@ -0,0 +1,26 @@
+import type { BaseFlow } from '@/app/flow/base';
+import { PlanningFlow } from '@/app/flow/planning';
+import { ValueError } from '@/app/utils/error';
+
+export const FlowType = {
+  PLANNING: 'planning',
+} as const;
+export const FLOW_TYPE_VALUES = Array.from(Object.values(FlowType));
+export type FLOW_TYPE_TYPE = (typeof FlowType)[keyof typeof FlowType];
+
+/**
+ * Factory for creating different types of flows with support for multiple agents.
+ */
+export class FlowFactory {
+  static create_flow({
+    flow_type,
+    ...params
+  }: { flow_type: FLOW_TYPE_TYPE } & ConstructorParameters<typeof PlanningFlow>[0]): BaseFlow {
+    switch (flow_type) {
+      case FlowType.PLANNING:
+        return new PlanningFlow(params);
+      default:
+        throw new ValueError(`Unknown flow type: ${flow_type}`);
+    }
+  }
+}
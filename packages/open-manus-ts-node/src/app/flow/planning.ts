@@ -0,0 +1,301 @@
+import type { BaseAgent, RunOptions } from '@/app/agent/base';
+import type { BaseFlowParams } from '@/app/flow/base';
+import { BaseFlow } from '@/app/flow/base';
+import type { LLM } from '@/app/llm';
+import {
+  AGENTS_PROMPT,
+  CREATE_PLAN_PROMPT,
+  EXECUTE_STEP_PROMPT,
+  FINALIZE_PROMPT,
+  FINALIZE_SYSTEM_PROMPT,
+  PLANNING_SYSTEM_PROMPT,
+} from '@/app/prompt/planning';
+import { AgentState, Message, ToolChoice } from '@/app/schema';
+import type { PLAN_STEP_STATUS_TYPE, Plan } from '@/app/tool/planning';
+import { PlanStepStatus, PlanningTool } from '@/app/tool/planning';
+import type { UsageReport } from '@/app/usage';
+import { UsageTracker, with_usage_scope } from '@/app/usage';
+import { is_abort_error, throw_if_aborted } from '@/app/utils/abort';
+
+// Steps of the plan to execute when the LLM does not provide one
+const DEFAULT_PLAN_STEPS = ['Analyze request', 'Execute task', 'Verify results'];
+
+export interface PlanStepInfo {
+  index: number;
+  text: string;
+  // Agent key found in the step text as `[agent_key]`
+  type?: string;
+}
+
+type PlanningFlowParams = BaseFlowParams &
+  Partial<Pick<PlanningFlow, 'llm' | 'planning_tool' | 'executor_keys' | 'usage_tracker'>> & {
+    plan_id?: string;
+  };
+
+/**
+ * A flow that manages planning and execution of tasks using agents.
+ *
+ * The LLM first breaks the request into a plan, each step is then handed to
+ * the agent it names (or the first executor) until none is left, and the LLM
+ * finally summarizes what was done.
+ */
+export class PlanningFlow extends BaseFlow {
+  llm: LLM;
+  planning_tool: PlanningTool;
+  // Agents steps may be assigned to, all of them by default
+  executor_keys: string[];
+  active_plan_id: string;
+  current_step_index?: number;
+  // Usage of the flow and its agents is recorded under the plan id
+  usage_tracker: UsageTracker;
+
+  constructor({
+    llm,
+    planning_tool = new PlanningTool(),
+    executor_keys,
+    plan_id = `plan_${Date.now()}`,
+    usage_tracker = UsageTracker.getInstance(),
+    ...params
+  }: PlanningFlowParams) {
+    super(params);
+    // Plans are made with the planning profile of the primary agent by default
+    this.llm = llm ?? this.primary_agent.planning_llm;
+    this.planning_tool = planning_tool;
+    this.usage_tracker = usage_tracker;
+    this.executor_keys = executor_keys ?? Array.from(this.agents.keys());
+    this.active_plan_id = plan_id;
+  }
+
+  /**
+   * Get an appropriate executor agent for the current step.
+   */
+  get_executor(step_type?: string): BaseAgent {
+    // If step type is provided and matches an agent key, use that agent
+    if (step_type && this.agents.has(step_type)) {
+      return this.agents.get(step_type)!;
+    }
+    // Otherwise use the first available executor or fall back to primary agent
+    const key = this.executor_keys.find((k) => this.agents.has(k));
+    return key ? this.agents.get(key)! : this.primary_agent;
+  }
+
+  /**
+   * The plan being executed, if it was created.
+   */
+  get plan(): Plan | undefined {
+    return this.planning_tool.plans.get(this.active_plan_id);
+  }
+
+  /**
+   * Tokens and cost of the LLM calls made by the flow and its agents.
+   */
+  usage_report(): UsageReport {
+    return this.usage_tracker.report({ run_id: this.active_plan_id });
+  }
+
+  /**
+   * Execute the planning flow with agents.
+   */
+  async execute(input_text: string, { signal }: RunOptions = {}): Promise<string> {
+    try {
+      if (input_text) {
+        await this._create_initial_plan(input_text, signal);
+
+        if (!this.plan) {
+          console.error(`Plan creation failed. Plan ID ${this.active_plan_id} not found`);
+          return `Failed to create plan for: ${input_text}`;
+        }
+      }
+
+      let result = '';
+      while (true) {
+        throw_if_aborted(signal);
+        const step_info = this._get_current_step_info();
+        // Exit if no more steps or plan completed
+        if (!step_info) {
+          result += await this._finalize_plan(signal);
+          break;
+        }
+
+        this.current_step_index = step_info.index;
+        const executor = this.get_executor(step_info.type);
+        const step_result = await this._execute_step(executor, step_info, signal);
+        result += `${step_result}\n`;
+      }
+      return result;
+    } catch (e) {
+      if (is_abort_error(e)) {
+        throw e;
+      }
+      console.error(`Error in PlanningFlow: ${e}`);
+      return `Execution failed: ${e}`;
+    }
+  }
+
+  /**
+   * Create an initial plan based on the request using the flow's LLM and PlanningTool.
+   */
+  private async _create_initial_plan(request: string, signal?: AbortSignal): Promise<void> {
+    console.info(`📋 Creating initial plan with ID: ${this.active_plan_id}`);
+
+    let system_prompt = PLANNING_SYSTEM_PROMPT;
+    const agents = this.executor_keys
+      .filter((key) => this.agents.has(key))
+      .map((key) => ({ name: key, description: this.agents.get(key)!.description ?? '' }));
+    if (agents.length > 1) {
+      system_prompt += `\n${AGENTS_PROMPT.replace('{agents_count}', String(agents.length)).replace(
+        '{agents_description}',
+        JSON.stringify(agents, null, 2),
+      )}`;
+    }
+
+    const response = await this._track_usage(() =>
+      this.llm.ask_tool({
+        messages: [Message.user_message(CREATE_PLAN_PROMPT.replace('{request}', request))],
+        system_msgs: [Message.system_message(system_prompt)],
+        tools: [this.planning_tool.to_param()],
+        tool_choice: ToolChoice.AUTO,
+        signal,
+      }),
+    );
+
+    for (const tool_call of response?.tool_calls ?? []) {
+      if (tool_call.type !== 'function' || tool_call.function.name !== this.planning_tool.name) {
+        continue;
+      }
+      try {
+        const args = JSON.parse(tool_call.function.arguments || '{}');
+        // Ensure plan_id is set correctly and execute the tool
+        const result = await this.planning_tool.execute({
+          ...args,
+          command: 'create',
+          plan_id: this.active_plan_id,
+        });
+        console.info(`📋 Plan creation result: ${result}`);
+        return;
+      } catch (e) {
+        console.error(`🚨 Invalid plan from the LLM: ${e}`);
+      }
+    }
+
+    // If execution reached here, create a default plan
+    console.warn('⚠️ Creating default plan');
+    await this.planning_tool.execute({
+      command: 'create',
+      plan_id: this.active_plan_id,
+      title: `Plan for: ${request.length > 50 ? `${request.slice(0, 50)}...` : request}`,
+      steps: DEFAULT_PLAN_STEPS,
+    });
+  }
+
+  /**
+   * Find the first step that is neither completed nor blocked, and mark it as
+   * in progress.
+   * @returns null if no active step is found.
+   */
+  private _get_current_step_info(): PlanStepInfo | null {
+    const plan = this.plan;
+    if (!plan) {
+      console.error(`Plan with ID ${this.active_plan_id} not found`);
+      return null;
+    }
+
+    const index = plan.steps.findIndex((_, i) => {
+      const status = plan.step_statuses[i];
+      return status === PlanStepStatus.NOT_STARTED || status === PlanStepStatus.IN_PROGRESS;
+    });
+    if (index === -1) {
+      return null;
+    }
+
+    const text = plan.steps[index];
+    // Extract step type/category if available
+    const type = /\[([\w-]+)\]/.exec(text)?.[1]?.toLowerCase();
+    this._mark_step(index, PlanStepStatus.IN_PROGRESS);
+    return { index, text, type };
+  }
+
+  /**
+   * Execute the current step with the specified agent using agent.run().
+   */
+  private async _execute_step(
+    executor: BaseAgent,
+    step_info: PlanStepInfo,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    const step_prompt = EXECUTE_STEP_PROMPT.replace('{plan_status}', this._get_plan_text())
+      .replace('{step_index}', String(step_info.index))
+      .replace('{step_text}', step_info.text);
+    console.info(`🚀 Executing step ${step_info.index} with agent '${executor.name}'`);
+
+    // Each step is a run of its own, not the continuation of the executor's last run
+    executor.current_step = 0;
+    executor.state = AgentState.IDLE;
+    try {
+      const step_result = await executor.run(step_prompt, {
+        signal,
+        run_id: this.active_plan_id,
+      });
+      this._mark_step(step_info.index, PlanStepStatus.COMPLETED);
+      return step_result;
+    } catch (e) {
+      if (is_abort_error(e)) {
+        throw e;
+      }
+      console.error(`🚨 Error executing step ${step_info.index}: ${e}`);
+      // A failed step is not retried, otherwise the flow would never end
+      this._mark_step(step_info.index, PlanStepStatus.BLOCKED, String(e));
+      return `Error executing step ${step_info.index}: ${e}`;
+    }
+  }
+
+  private _mark_step(step_index: number, step_status: PLAN_STEP_STATUS_TYPE, step_notes?: string) {
+    const plan = this.plan!;
+    plan.step_statuses[step_index] = step_status;
+    if (step_notes) {
+      plan.step_notes[step_index] = step_notes;
+    }
+  }
+
+  private _get_plan_text(): string {
+    const plan = this.plan;
+    return plan
+      ? PlanningTool.format_plan(plan)
+      : `Error: Plan with ID ${this.active_plan_id} not found`;
+  }
+
+  /**
+   * Finalize the plan and provide a summary using the flow's LLM directly.
+   */
+  private async _finalize_plan(signal?: AbortSignal): Promise<string> {
+    try {
+      const summary = await this._track_usage(() =>
+        this.llm.ask({
+          messages: [
+            Message.user_message(FINALIZE_PROMPT.replace('{plan_status}', this._get_plan_text())),
+          ],
+          system_msgs: [Message.system_message(FINALIZE_SYSTEM_PROMPT)],
+          stream: false,
+          signal,
+        }),
+      );
+      return `Plan completed:\n\n${summary}`;
+    } catch (e) {
+      if (is_abort_error(e)) {
+        throw e;
+      }
+      console.error(`🚨 Error finalizing plan: ${e}`);
+      return 'Plan completed. Error generating summary.';
+    }
+  }
+
+  /**
+   * Record the usage of the flow's own LLM calls under the plan.
+   */
+  private async _track_usage<T>(fn: () => Promise<T>): Promise<T> {
+    return await with_usage_scope(
+      { tracker: this.usage_tracker, agent: 'planning_flow', run_id: this.active_plan_id },
+      fn,
+    );
+  }
+}
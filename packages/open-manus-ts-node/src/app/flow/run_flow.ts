@@ -0,0 +1,54 @@
+import type { BaseAgent } from '@/app/agent/base';
+import { DataAnalysis } from '@/app/agent/data_analysis';
+import { Manus } from '@/app/agent/manus';
+import { config } from '@/app/config';
+import type { FlowAgents } from '@/app/flow/base';
+import { FlowFactory, FlowType } from '@/app/flow/flow_factory';
+import { is_abort_error } from '@/app/utils/abort';
+
+// Default time limit of a whole flow run, in milliseconds
+const FLOW_TIMEOUT = 60 * 60 * 1000;
+
+/**
+ * Agents available to the planning flow by default: the general purpose Manus,
+ * plus the data analysis one when enabled by `runflow.use_data_analysis_agent`.
+ */
+export function create_flow_agents(): Record<string, BaseAgent> {
+  const agents: Record<string, BaseAgent> = {
+    manus: new Manus(),
+  };
+  if (config.run_flow_config.use_data_analysis_agent) {
+    agents.data_analysis = new DataAnalysis();
+  }
+  return agents;
+}
+
+/**
+ * Run a request through the planning flow.
+ */
+export async function run_flow(
+  prompt: string,
+  {
+    agents = create_flow_agents(),
+    timeout = FLOW_TIMEOUT,
+    signal,
+  }: { agents?: FlowAgents; timeout?: number; signal?: AbortSignal } = {},
+): Promise<string> {
+  const flow = FlowFactory.create_flow({ flow_type: FlowType.PLANNING, agents });
+  console.warn('Processing your request...');
+
+  const timeout_signal = AbortSignal.timeout(timeout);
+  const start_time = Date.now();
+  try {
+    const result = await flow.execute(prompt, {
+      signal: signal ? AbortSignal.any([signal, timeout_signal]) : timeout_signal,
+    });
+    console.info(`Request processed in ${((Date.now() - start_time) / 1000).toFixed(2)} seconds`);
+    return result;
+  } catch (e) {
+    if (is_abort_error(e) && timeout_signal.aborted) {
+      console.error(`Request processing timed out after ${timeout / 1000} seconds`);
+    }
+    throw e;
+  }
+}
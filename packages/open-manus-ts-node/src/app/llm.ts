@@ -1,34 +1,140 @@
 import * as console from 'node:console';
-import { type Tiktoken, type TiktokenModel, encoding_for_model, get_encoding } from 'tiktoken';
-import { AzureOpenAI, OpenAI } from 'openai';
-import type {
-  ChatCompletionCreateParamsBase,
-  ChatCompletionCreateParamsStreaming,
-} from 'openai/src/resources/chat/completions/completions';
 import type { ChatCompletionMessage } from 'openai/resources';
-import type { ChatCompletionCreateParamsNonStreaming } from 'openai/resources/chat/completions/completions';
 import {
   Message,
   ROLE_VALUES,
+  Role,
   type TOOL_CHOICE_TYPE,
   TOOL_CHOICE_VALUES,
   type ToolCall,
   ToolChoice,
 } from '@/app/schema';
-import type { LLMSettings } from '@/app/config';
+import type { ModelCapabilities } from '@/app/capabilities';
+import { CapabilityRegistry } from '@/app/capabilities';
+import type { LLMSettings, ModelPricing } from '@/app/config';
 import { config } from '@/app/config';
-import { retry } from '@/app/utils/decorators/retry';
-import { TokenLimitExceeded, ValueError } from '@/app/utils/error';
-
-const REASONING_MODELS = ['o1', 'o3-mini'];
-const MULTIMODAL_MODELS = [
-  'gpt-4-vision-preview',
-  'gpt-4o',
-  'gpt-4o-mini',
-  'claude-3-opus-20240229',
-  'claude-3-sonnet-20240229',
-  'claude-3-haiku-20240307',
-];
+import type {
+  ChatChunk,
+  ChatRequest,
+  ChatResponse,
+  ChatUsage,
+  LLMProvider,
+} from '@/app/provider/base';
+import { assistant_message } from '@/app/provider/base';
+import { is_transient, retry_after_ms } from '@/app/provider/errors';
+import { ProviderFactory } from '@/app/provider/provider_factory';
+import { type RateLimitRelease, RateLimiter } from '@/app/rate_limiter';
+import { is_abort_error, to_abort_error } from '@/app/utils/abort';
+import { type RetryPolicy, retry } from '@/app/utils/decorators/retry';
+import {
+  InvalidTranscript,
+  RetryError,
+  TokenBudgetExceeded,
+  TokenLimitExceeded,
+  UnsupportedCapability,
+  ValueError,
+} from '@/app/utils/error';
+import { TypedEventEmitter } from '@/app/utils/event_emitter';
+import type { TokenBudget } from '@/app/token_budget';
+import type { Tokenizer } from '@/app/tokenizer';
+import { TokenizerFactory } from '@/app/tokenizer';
+import { type ImageDimensions, data_url_dimensions } from '@/app/utils/image';
+import { compute_cost, current_usage_scope } from '@/app/usage';
+
+const RETRY_OPTIONS = {
+  policy: (llm: LLM) => llm.retry_policy,
+  // Only rate limits, timeouts, network and server failures, never our own checks
+  retry: is_transient,
+  retry_after: retry_after_ms,
+};
+
+// Provider errors for prompts larger than the context window of the model
+function is_context_length_error(error: unknown): boolean {
+  return (
+    error instanceof Error &&
+    /context.length|context window|maximum context|prompt is too long/i.test(error.message)
+  );
+}
+
+// Errors the next model of a fallback chain is tried on: the retryable ones,
+// once the model is out of retries, and prompts another model may have room
+// for. Budgets span the whole chain.
+function should_fall_back(error: unknown): boolean {
+  if (error instanceof RetryError) {
+    error = error.__cause__;
+  }
+  if (is_abort_error(error) || error instanceof TokenBudgetExceeded) {
+    return false;
+  }
+  return (
+    error instanceof TokenLimitExceeded || is_context_length_error(error) || is_transient(error)
+  );
+}
+
+export interface TokenUsage {
+  model: string;
+  input_tokens: number;
+  cached_input_tokens: number;
+  completion_tokens: number;
+  // USD, from the pricing of the model
+  cost: number;
+  unpriced: boolean;
+  // The provider reported no usage, tokens were counted locally
+  estimated: boolean;
+  // Model of the chain that failed, when a fallback model answered
+  fallback_for?: string;
+  // Served from the response cache: nothing was spent, `cost` is what the call saved
+  cache_hit?: boolean;
+  // Agent and run the call was made for, from the usage scope
+  agent?: string;
+  run_id?: string;
+  total_input_tokens: number;
+  total_completion_tokens: number;
+}
+
+/**
+ * Piece of a response streamed by `ask_tool`.
+ */
+export type ToolStreamDelta =
+  | { type: 'content'; delta: string }
+  // `delta` extends the arguments of the tool call at `index`
+  | { type: 'tool_call'; index: number; id?: string; name?: string; delta: string };
+
+export interface AskParams {
+  messages: Array<Message | any>;
+  system_msgs?: Array<Message | any>;
+  stream?: boolean;
+  temperature?: number;
+  // Ask for a JSON object, enforced when the model has a JSON mode
+  json_mode?: boolean;
+  signal?: AbortSignal;
+  // Cumulative budget the call is checked against and charged to
+  budget?: TokenBudget;
+  // Receives streamed content deltas, defaults to writing them to stdout
+  on_token?: (delta: string) => void;
+}
+
+export interface AskWithImageParams extends Omit<AskParams, 'json_mode'> {
+  images: Array<string | Record<string, any>>;
+}
+
+export interface AskToolParams extends Pick<
+  AskParams,
+  'messages' | 'system_msgs' | 'stream' | 'temperature' | 'signal' | 'budget'
+> {
+  tools?: any[];
+  tool_choice?: TOOL_CHOICE_TYPE;
+  // Receives content and tool call deltas when streaming
+  on_delta?: (delta: ToolStreamDelta) => void;
+}
+
+export interface LLMEvents {
+  token_usage: TokenUsage;
+  // A request waits for the rate limit `key`, behind `waiting` others
+  rate_limit_wait: { model: string; key: string; waiting: number };
+}
+
+type ImageDetail = 'low' | 'high' | 'medium' | 'auto';
 
 export class TokenCounter {
   /*
@@ -46,10 +152,10 @@ export class TokenCounter {
   HIGH_DETAIL_TARGET_SHORT_SIDE = 768;
   TILE_SIZE = 512;
 
-  constructor(public tokenizer: Tiktoken) {}
+  constructor(public tokenizer: Tokenizer) {}
 
   count_text(text: string): number {
-    return text ? this.tokenizer.encode(text).length : 0;
+    return text ? this.tokenizer.count(text) : 0;
   }
 
   /*
@@ -61,18 +167,19 @@ export class TokenCounter {
           2. Scale shortest side to 768px
           3. Count 512px tiles (170 tokens each)
           4. Add 85 tokens
+        "auto" is counted as "high"
    */
   count_image({
     detail = 'medium',
     dimensions,
   }: {
-    detail?: 'low' | 'high' | 'medium';
-    dimensions?: { width: number; height: number };
+    detail?: 'low' | 'high' | 'medium' | 'auto';
+    dimensions?: ImageDimensions;
   }): number {
     if (detail === 'low') {
       return this.LOW_DETAIL_IMAGE_TOKENS;
     }
-    if ((detail === 'high' || detail === 'medium') && dimensions) {
+    if (dimensions) {
       return this._calculate_high_detail_tokens(dimensions);
     }
     return detail === 'high'
@@ -89,7 +196,8 @@ export class TokenCounter {
       height = height * scale;
     }
 
-    const scale = this.HIGH_DETAIL_TARGET_SHORT_SIDE / Math.min(width, height);
+    // Images are only ever scaled down
+    const scale = Math.min(this.HIGH_DETAIL_TARGET_SHORT_SIDE / Math.min(width, height), 1);
     const scaledWidth = width * scale;
     const scaledHeight = height * scale;
 
@@ -108,7 +216,9 @@ export class TokenCounter {
       | (
           | string
           | { text: string }
-          | ({ image_url: string } & Parameters<typeof this.count_image>[0])
+          | ({ image_url: string | { url: string; detail?: ImageDetail } } & {
+              detail?: ImageDetail;
+            })
         )[],
   ): number {
     if (!content) return 0;
@@ -120,7 +230,11 @@ export class TokenCounter {
       } else if ('text' in c) {
         token_count += this.count_text(c['text']);
       } else if ('image_url' in c) {
-        token_count += this.count_image(c);
+        const image_url = typeof c.image_url === 'string' ? { url: c.image_url } : c.image_url;
+        token_count += this.count_image({
+          detail: image_url.detail ?? c.detail,
+          dimensions: data_url_dimensions(image_url.url ?? ''),
+        });
       }
     });
     return token_count;
@@ -129,28 +243,94 @@ export class TokenCounter {
   /*
     Calculate tokens for tool calls
    */
-  count_tool_calls(tool_calls: ToolCall[]): number {
+  count_tool_calls(tool_calls: Array<ToolCall | Record<string, any>>): number {
     let token_count = 0;
     tool_calls.forEach((t) => {
       if ('fn' in t) {
         const fn = t.fn;
         token_count += this.count_text(fn.name);
         token_count += this.count_text(fn.args);
+      } else if ('function' in t) {
+        // Already formatted for the API
+        token_count += this.count_text(t.function.name);
+        token_count += this.count_text(t.function.arguments);
       }
     });
     return token_count;
   }
 
+  /*
+    Calculate tokens for tool schemas, as the TypeScript-like declarations
+    OpenAI renders them into the system prompt
+   */
+  count_tools(tools: any[]): number {
+    return tools.length ? this.count_text(TokenCounter.format_tools(tools)) : 0;
+  }
+
+  static format_tools(tools: any[]): string {
+    const declarations = tools
+      .map((tool) => {
+        const fn = tool.function ?? tool;
+        const description = fn.description ? `// ${fn.description}\n` : '';
+        const properties = fn.parameters?.properties ?? {};
+        if (!Object.keys(properties).length) {
+          return `${description}type ${fn.name} = () => any;`;
+        }
+        return (
+          `${description}type ${fn.name} = (_: {\n` +
+          TokenCounter._format_properties(properties, fn.parameters.required ?? []) +
+          '}) => any;'
+        );
+      })
+      .join('\n\n');
+    return `# Tools\n\n## functions\n\nnamespace functions {\n\n${declarations}\n\n} // namespace functions`;
+  }
+
+  private static _format_properties(properties: Record<string, any>, required: string[]): string {
+    return Object.entries(properties)
+      .map(([name, schema]) => {
+        const description = schema.description ? `// ${schema.description}\n` : '';
+        const optional = required.includes(name) ? '' : '?';
+        return `${description}${name}${optional}: ${TokenCounter._format_type(schema)},\n`;
+      })
+      .join('');
+  }
+
+  private static _format_type(schema: Record<string, any>): string {
+    if (schema.enum) {
+      return schema.enum.map((value: unknown) => JSON.stringify(value)).join(' | ');
+    }
+    switch (schema.type) {
+      case 'string':
+        return 'string';
+      case 'number':
+      case 'integer':
+        return 'number';
+      case 'boolean':
+        return 'boolean';
+      case 'null':
+        return 'null';
+      case 'array':
+        return `${schema.items ? TokenCounter._format_type(schema.items) : 'any'}[]`;
+      case 'object':
+        return schema.properties
+          ? `{\n${TokenCounter._format_properties(schema.properties, schema.required ?? [])}}`
+          : 'object';
+      default:
+        return 'any';
+    }
+  }
+
   count_message_tokens(messages: Message[]): number {
     let total_token = this.FORMAT_TOKENS;
     messages.forEach((m) => {
       let tokens = this.BASE_MESSAGE_TOKENS;
       tokens += this.count_text(m.role);
-      if ('content' in m) {
-        tokens += this.count_content(m.content!);
+      if (m.content) {
+        tokens += this.count_content(m.content);
       }
-      if ('tool_calls' in m) {
-        tokens += this.count_tool_calls(m.tool_calls!);
+      if (m.tool_calls) {
+        tokens += this.count_tool_calls(m.tool_calls);
       }
       tokens += this.count_text(m.name!);
       tokens += this.count_text(m.tool_call_id!);
@@ -162,7 +342,10 @@ export class TokenCounter {
 
 export class LLM {
   private static _instances: Map<string, LLM> = new Map();
-  client!: AzureOpenAI | OpenAI;
+  // Adapter for the chat completion API selected by api_type
+  provider!: LLMProvider;
+  // Limits shared with the other LLMs calling the same endpoint and model
+  rate_limiter?: RateLimiter;
   model!: string;
   max_tokens!: number;
   temperature!: number;
@@ -173,10 +356,30 @@ export class LLM {
   total_input_tokens!: number;
   total_completion_tokens!: number;
   max_input_tokens?: number;
+  // Settings of this entry overriding the registry, see `capabilities`
+  capability_overrides!: Partial<ModelCapabilities>;
+  // Default budget of the agents using this LLM, see TokenBudget
+  token_budget?: number;
+  budget_warning_thresholds?: number[];
+  // USD per million tokens, by model name
+  pricing!: Record<string, ModelPricing>;
+  // Profile in config.llm the settings come from
+  config_name!: string;
+  // Names of the config entries tried in order when this model fails
+  fallbacks!: string[];
+  private _fallback_llms?: LLM[];
+  // Profile images are sent to by ask_with_image, if any
+  vision_profile?: string;
+  private _vision_llm?: LLM;
+  retry_policy!: RetryPolicy;
+  // Calls of the LLMs of a chain are recorded by its head, see `_forward_usage`
+  private _records_usage = true;
 
-  tokenizer!: Tiktoken;
+  tokenizer!: Tokenizer;
   token_counter!: TokenCounter;
 
+  events: TypedEventEmitter<LLMEvents> = new TypedEventEmitter();
+
   static getInstance({
     config_name = 'default',
     llm_config,
@@ -198,7 +401,7 @@ export class LLM {
     config_name?: string;
     llm_config?: LLMSettings;
   }) {
-    if (!this.client) {
+    if (!this.provider) {
       const llm_config = llm_config_props || config.llm[config_name] || config.llm['default'];
       this.model = llm_config.model;
       this.max_tokens = llm_config.max_tokens;
@@ -208,54 +411,366 @@ export class LLM {
       this.api_version = llm_config.api_version;
       this.base_url = llm_config.base_url;
       this.max_input_tokens = llm_config.max_input_tokens;
+      this.capability_overrides = llm_config.capabilities ?? {};
+      this.token_budget = llm_config.token_budget;
+      this.budget_warning_thresholds = llm_config.budget_warning_thresholds;
+      this.pricing = llm_config.pricing ?? {};
+      this.config_name = config_name;
+      this.fallbacks = llm_config.fallbacks ?? [];
+      const vision_profile =
+        llm_config.vision_profile ?? (config.llm['vision'] ? 'vision' : undefined);
+      this.vision_profile = vision_profile !== config_name ? vision_profile : undefined;
+      const retry_settings = llm_config.retry ?? {};
+      this.retry_policy = {
+        stop: retry_settings.max_attempts ?? 6,
+        wait: (retry_settings.initial_wait ?? 2) * 1000,
+        multiplier: retry_settings.multiplier ?? 2,
+        max_wait: (retry_settings.max_wait ?? 60) * 1000,
+        jitter: retry_settings.jitter ?? 0.2,
+      };
       this.total_input_tokens = 0;
       this.total_completion_tokens = 0;
-      this.max_input_tokens = llm_config.max_input_tokens;
 
-      // initialize tokenizer
-      try {
-        this.tokenizer = encoding_for_model(this.model as TiktokenModel);
-      } catch (_e) {
-        this.tokenizer = get_encoding('cl100k_base');
-      }
-      if (this.api_type === 'azure') {
-        this.client = new AzureOpenAI({
-          apiKey: this.api_key,
-          apiVersion: this.api_version,
-          baseURL: this.base_url,
-        });
-      } else {
-        this.client = new OpenAI({
-          apiKey: this.api_key,
-          baseURL: this.base_url,
-        });
-      }
+      this.tokenizer = TokenizerFactory.create_tokenizer({
+        model: this.model,
+        tokenizer: llm_config.tokenizer,
+      });
+      this.provider = ProviderFactory.create_provider({
+        api_type: this.api_type,
+        api_key: this.api_key,
+        api_version: this.api_version,
+        base_url: this.base_url,
+        cassette: llm_config.cassette,
+        cassette_mode: llm_config.cassette_mode,
+        script: llm_config.script,
+        cache: llm_config.cache,
+      });
+      this.rate_limiter = RateLimiter.getInstance({
+        base_url: this.base_url,
+        model: this.model,
+        settings: llm_config.rate_limit,
+      });
       this.token_counter = new TokenCounter(this.tokenizer);
     }
   }
 
+  /**
+   * Count tokens with another tokenizer than the one of the settings.
+   */
+  use_tokenizer(tokenizer: Tokenizer): void {
+    this.tokenizer = tokenizer;
+    this.token_counter = new TokenCounter(tokenizer);
+  }
+
   count_tokens(text: string): number {
-    return text ? this.tokenizer.encode(text).length : 0;
+    return this.token_counter.count_text(text);
   }
   count_message_tokens(messages: Message[]): number {
     return this.token_counter.count_message_tokens(messages);
   }
-  update_token_count(input_tokens: number, completion_tokens = 0): void {
+  count_completion_tokens(content: string, tool_calls: Array<Record<string, any>>): number {
+    return this.count_tokens(content) + this.token_counter.count_tool_calls(tool_calls);
+  }
+  update_token_count(
+    input_tokens: number,
+    completion_tokens = 0,
+    { cached_input_tokens = 0, estimated = false } = {},
+  ): void {
     this.total_input_tokens += input_tokens;
     this.total_completion_tokens += completion_tokens;
+    const pricing = this.pricing[this.model];
+    const cost = compute_cost(pricing, { input_tokens, cached_input_tokens, completion_tokens });
     console.info(
       `Token usage: input=${input_tokens}, completion=${completion_tokens}, ` +
-        `total=${this.total_input_tokens + this.total_completion_tokens}`,
+        `total=${this.total_input_tokens + this.total_completion_tokens}` +
+        (pricing ? `, cost=$${cost.toFixed(6)}` : ''),
+    );
+    this._emit_usage({
+      model: this.model,
+      input_tokens,
+      cached_input_tokens,
+      completion_tokens,
+      cost,
+      unpriced: !pricing,
+      estimated,
+      total_input_tokens: this.total_input_tokens,
+      total_completion_tokens: this.total_completion_tokens,
+    });
+  }
+
+  /**
+   * Record the usage of a call, counting tokens locally when the provider
+   * reported none.
+   */
+  private _record_usage(
+    usage: ChatUsage | undefined,
+    input_tokens: number,
+    completion: () => number,
+    budget?: TokenBudget,
+    cache_hit = false,
+  ): void {
+    if (cache_hit) {
+      this._report_cache_hit(usage, input_tokens, completion);
+    } else if (usage) {
+      this.update_token_count(usage.prompt_tokens, usage.completion_tokens, {
+        cached_input_tokens: usage.cached_tokens,
+      });
+      budget?.consume(usage.prompt_tokens + usage.completion_tokens);
+    } else {
+      const completion_tokens = completion();
+      this.update_token_count(input_tokens, completion_tokens, { estimated: true });
+      budget?.consume(input_tokens + completion_tokens);
+    }
+  }
+
+  /**
+   * Report a response served from the cache. It is not added to the totals
+   * nor charged to a budget, the tokens and cost are those it saved.
+   */
+  private _report_cache_hit(
+    usage: ChatUsage | undefined,
+    input_tokens: number,
+    completion: () => number,
+  ): void {
+    const tokens = {
+      input_tokens: usage?.prompt_tokens ?? input_tokens,
+      cached_input_tokens: usage?.cached_tokens ?? 0,
+      completion_tokens: usage?.completion_tokens ?? completion(),
+    };
+    const pricing = this.pricing[this.model];
+    const cost = compute_cost(pricing, tokens);
+    console.info(
+      `💾 Cache hit: input=${tokens.input_tokens}, completion=${tokens.completion_tokens}` +
+        (pricing ? `, saved=$${cost.toFixed(6)}` : ''),
     );
+    this._emit_usage({
+      model: this.model,
+      ...tokens,
+      cost,
+      unpriced: !pricing,
+      estimated: !usage,
+      cache_hit: true,
+      total_input_tokens: this.total_input_tokens,
+      total_completion_tokens: this.total_completion_tokens,
+    });
+  }
+
+  /**
+   * Capabilities of the model, from the registry and the settings.
+   */
+  get capabilities(): ModelCapabilities {
+    return CapabilityRegistry.getInstance().resolve(this.model, this.capability_overrides);
+  }
+
+  get_context_window(): number | undefined {
+    return this.capabilities.context_window;
+  }
+
+  /**
+   * Completion size requested, max_tokens capped to what the model produces.
+   */
+  get_max_output_tokens(): number {
+    const { max_output_tokens } = this.capabilities;
+    return max_output_tokens ? Math.min(this.max_tokens, max_output_tokens) : this.max_tokens;
+  }
+
+  /**
+   * Largest prompt a single request may have: the configured maximum, or the
+   * context window less the room kept for the completion.
+   */
+  get_input_limit(): number | undefined {
+    if (this.max_input_tokens) {
+      return this.max_input_tokens;
+    }
+    const context_window = this.get_context_window();
+    if (!context_window) {
+      return undefined;
+    }
+    const max_tokens = this.get_max_output_tokens();
+    return max_tokens < context_window ? context_window - max_tokens : context_window;
   }
+
+  /**
+   * Check a request against the context window. The tokens spent by earlier
+   * requests do not matter here, cumulative limits are for TokenBudget.
+   */
   check_token_limit(input_tokens: number): boolean {
-    return this.max_input_tokens
-      ? this.total_input_tokens + input_tokens <= this.max_input_tokens
-      : true;
+    const limit = this.get_input_limit();
+    return limit ? input_tokens <= limit : true;
   }
   get_limit_error_message(input_tokens: number): string {
-    return `Token limit exceeded: current=${this.total_input_tokens}, needed=${input_tokens}, max=${this.max_input_tokens}`;
+    return `Token limit exceeded: needed=${input_tokens}, max=${this.get_input_limit()} (model ${this.model})`;
+  }
+  /**
+   * Completion parameters in the form the model takes them: reasoning models
+   * get max_completion_tokens and no temperature.
+   */
+  private _completion_params(
+    temperature: number | undefined,
+    stream: boolean,
+  ): Pick<ChatRequest, 'max_tokens' | 'max_completion_tokens' | 'temperature' | 'stream_options'> {
+    const capabilities = this.capabilities;
+    const params: ReturnType<LLM['_completion_params']> = capabilities.reasoning
+      ? { max_completion_tokens: this.get_max_output_tokens() }
+      : { max_tokens: this.get_max_output_tokens(), temperature: temperature || this.temperature };
+    if (stream && capabilities.streaming_usage) {
+      params.stream_options = { include_usage: true };
+    }
+    return params;
+  }
+
+  /**
+   * LLMs of the fallback chain, built on first use. Their token usage is
+   * emitted again by this LLM, so its listeners see every call of the chain.
+   */
+  get fallback_llms(): LLM[] {
+    this._fallback_llms ??= this.fallbacks.map((name) => {
+      const settings = config.llm[name];
+      if (!settings) {
+        throw new ValueError(`Fallback LLM '${name}' is not configured`);
+      }
+      // The chain is the one of this LLM, the fallbacks of fallbacks are ignored
+      const llm = new LLM({ config_name: name, llm_config: { ...settings, fallbacks: [] } });
+      this._forward_usage(llm, { fallback_for: this.model });
+      return llm;
+    });
+    return this._fallback_llms;
+  }
+
+  /**
+   * LLM of the vision profile, built on first use, with its token usage
+   * emitted again by this LLM.
+   */
+  get vision_llm(): LLM | undefined {
+    if (!this._vision_llm && this.vision_profile) {
+      if (!config.llm[this.vision_profile]) {
+        throw new ValueError(`Vision profile '${this.vision_profile}' is not configured`);
+      }
+      this._vision_llm = new LLM({ config_name: this.vision_profile });
+      this._forward_usage(this._vision_llm);
+    }
+    return this._vision_llm;
+  }
+
+  /**
+   * Complete a request once the rate limiter lets it through.
+   */
+  private async _complete(
+    params: ChatRequest,
+    input_tokens: number,
+    signal?: AbortSignal,
+  ): Promise<ChatResponse> {
+    const release = await this._acquire(input_tokens, signal);
+    let used_tokens: number | undefined;
+    try {
+      const response = await this.provider.complete(params, signal);
+      used_tokens = LLM._used_tokens(response.usage, response.cache_hit);
+      return response;
+    } finally {
+      release?.(used_tokens);
+    }
+  }
+
+  /**
+   * Stream a request once the rate limiter lets it through, holding its slot
+   * until the stream ends.
+   */
+  private async *_stream(
+    params: ChatRequest,
+    input_tokens: number,
+    signal?: AbortSignal,
+  ): AsyncIterable<ChatChunk> {
+    const release = await this._acquire(input_tokens, signal);
+    let used_tokens: number | undefined;
+    try {
+      for await (const chunk of this.provider.stream(params, signal)) {
+        used_tokens = LLM._used_tokens(chunk.usage, chunk.cache_hit) ?? used_tokens;
+        yield chunk;
+      }
+    } finally {
+      release?.(used_tokens);
+    }
+  }
+
+  // Tokens a call counts for against the rate limit, cached responses cost none
+  private static _used_tokens(usage?: ChatUsage, cache_hit?: boolean): number | undefined {
+    if (cache_hit) {
+      return 0;
+    }
+    return usage && usage.prompt_tokens + usage.completion_tokens;
+  }
+
+  /**
+   * Report a call to the listeners, recording it in the tracker of the usage
+   * scope it was made in.
+   */
+  private _emit_usage(usage: TokenUsage): void {
+    const scope = current_usage_scope();
+    const scoped_usage = { ...usage, agent: scope?.agent, run_id: scope?.run_id };
+    if (this._records_usage) {
+      scope?.tracker.record(scoped_usage, scope);
+    }
+    this.events.emit('token_usage', scoped_usage);
+  }
+
+  private _forward_usage(llm: LLM, extra: Partial<TokenUsage> = {}): void {
+    llm._records_usage = false;
+    llm.events.on('token_usage', (usage) => {
+      if (!usage.cache_hit) {
+        this.total_input_tokens += usage.input_tokens;
+        this.total_completion_tokens += usage.completion_tokens;
+      }
+      this._emit_usage({
+        ...usage,
+        ...extra,
+        total_input_tokens: this.total_input_tokens,
+        total_completion_tokens: this.total_completion_tokens,
+      });
+    });
+    llm.events.on('rate_limit_wait', (wait) => this.events.emit('rate_limit_wait', wait));
+  }
+
+  // Slot of the rate limiter for a request, none without limits
+  private async _acquire(
+    input_tokens: number,
+    signal?: AbortSignal,
+  ): Promise<RateLimitRelease | undefined> {
+    const limiter = this.rate_limiter;
+    return await limiter?.acquire(input_tokens, {
+      signal,
+      on_wait: (waiting) =>
+        this.events.emit('rate_limit_wait', { model: this.model, key: limiter.key, waiting }),
+    });
+  }
+
+  /**
+   * Make a call with this model, then with each model of the fallback chain
+   * while the call fails with an error the next model may not run into.
+   * Each model retries transient errors with its own policy before the next
+   * one is tried.
+   */
+  private async _with_fallbacks<T>(call: (llm: LLM) => Promise<T>): Promise<T> {
+    const chain = this.fallbacks.length ? [this, ...this.fallback_llms] : [this];
+    for (let i = 0; ; i++) {
+      const llm = chain[i];
+      try {
+        const result = await call(llm);
+        if (llm !== this) {
+          console.info(`🔀 Fallback model ${llm.model} answered in place of ${this.model}`);
+        }
+        return result;
+      } catch (e) {
+        const next = chain[i + 1];
+        if (!next || !should_fall_back(e)) {
+          throw e;
+        }
+        console.warn(
+          `🔀 Model ${llm.model} failed (${(e as Error).message}), falling back to ${next.model}`,
+        );
+      }
+    }
   }
+
   static format_messages(messages: (Message | any)[], support_images = false): any[] {
     const formatted_messages: any[] = [];
     for (let message of messages) {
@@ -287,7 +802,19 @@ export class LLM {
         } else if (!support_images && message.base64_image) {
           delete message.base64_image;
         }
-        if ('content' in message || 'tool_calls' in messages) {
+        if (message.tool_calls) {
+          // Our ToolCall objects use the OpenAI wire format once formatted
+          message.tool_calls = message.tool_calls.map((tc: ToolCall | Record<string, any>) =>
+            'fn' in tc
+              ? {
+                  id: tc.id,
+                  type: tc.type,
+                  function: { name: tc.fn.name, arguments: tc.fn.args },
+                }
+              : tc,
+          );
+        }
+        if ('content' in message || 'tool_calls' in message) {
           formatted_messages.push(message);
         }
       } else {
@@ -302,20 +829,55 @@ export class LLM {
     return formatted_messages;
   }
 
-  @retry({ wait: 30 * 1000, stop: 6, retry: (error) => !(error instanceof TokenLimitExceeded) })
-  async ask({
+  /**
+   * Check that formatted messages pair tool calls and tool results the way
+   * OpenAI-compatible APIs require: tool results directly follow the assistant
+   * message whose calls they answer, and every call gets a result before the
+   * conversation moves on.
+   */
+  static validate_transcript(messages: any[]): void {
+    let pending: Set<string> | undefined;
+    messages.forEach((message, i) => {
+      if (message.role === Role.TOOL) {
+        if (!pending?.has(message.tool_call_id)) {
+          throw new InvalidTranscript(
+            `Message ${i}: tool result '${message.tool_call_id}' does not answer a preceding tool call`,
+          );
+        }
+        pending.delete(message.tool_call_id);
+        return;
+      }
+      if (pending && pending.size > 0) {
+        throw new InvalidTranscript(
+          `Message ${i}: tool calls ${Array.from(pending).join(', ')} have no result`,
+        );
+      }
+      pending =
+        message.role === Role.ASSISTANT && message.tool_calls?.length
+          ? new Set(message.tool_calls.map((tc: { id: string }) => tc.id))
+          : undefined;
+    });
+    if (pending && pending.size > 0) {
+      throw new InvalidTranscript(`Tool calls ${Array.from(pending).join(', ')} have no result`);
+    }
+  }
+
+  async ask(params: AskParams): Promise<string> {
+    return this._with_fallbacks((llm) => llm._ask(params));
+  }
+  @retry(RETRY_OPTIONS)
+  private async _ask({
     messages,
     system_msgs,
     stream = true,
     temperature,
-  }: {
-    messages: Array<Message | any>;
-    system_msgs?: Array<Message | any>;
-    stream?: boolean;
-    temperature?: number;
-  }): Promise<string> {
+    json_mode = false,
+    signal,
+    budget,
+    on_token,
+  }: AskParams): Promise<string> {
     try {
-      const supports_images = MULTIMODAL_MODELS.includes(this.model);
+      const supports_images = this.capabilities.vision;
       if (system_msgs) {
         system_msgs = LLM.format_messages(system_msgs, supports_images);
         messages = system_msgs.concat(LLM.format_messages(messages, supports_images));
@@ -326,72 +888,100 @@ export class LLM {
       if (!this.check_token_limit(input_tokens)) {
         throw new TokenLimitExceeded(this.get_limit_error_message(input_tokens));
       }
-      const params: ChatCompletionCreateParamsBase = {
+      budget?.check(input_tokens);
+      const params: ChatRequest = {
         model: this.model,
         messages: messages,
+        ...this._completion_params(temperature, stream),
       };
-      if (REASONING_MODELS.includes(this.model)) {
-        params.max_completion_tokens = this.max_tokens;
-      } else {
-        params.max_tokens = this.max_tokens;
-        params.temperature = temperature || this.temperature;
+      if (json_mode) {
+        if (this.capabilities.json_mode) {
+          params.response_format = { type: 'json_object' };
+        } else {
+          console.warn(`Model ${this.model} has no JSON mode, relying on the prompt for JSON`);
+        }
       }
       if (!stream) {
-        const response = await this.client.chat.completions.create({ ...params, stream: false });
-        if (!response.choices[0].message.content) {
+        const response = await this._complete(params, input_tokens, signal);
+        if (!response.message.content) {
           throw new ValueError('Empty or invalid response from LLM');
         }
-        this.update_token_count(
-          response.usage?.prompt_tokens || 0,
-          response.usage?.completion_tokens,
+        const content = response.message.content;
+        this._record_usage(
+          response.usage,
+          input_tokens,
+          () => this.count_tokens(content),
+          budget,
+          response.cache_hit,
         );
-        return response.choices[0].message.content;
+        return content;
       }
-      this.update_token_count(input_tokens);
-      params.stream = true;
-      const response = await this.client.chat.completions.create(
-        params as ChatCompletionCreateParamsStreaming,
-      );
       const collected_messages = [];
       let completion_text = '';
-      for await (const chunk of response) {
-        const chunk_message = chunk.choices[0].delta?.content || '';
+      let usage: ChatUsage | undefined;
+      let cache_hit = false;
+      for await (const chunk of this._stream(params, input_tokens, signal)) {
+        const chunk_message = chunk.content || '';
         collected_messages.push(chunk_message);
         completion_text += chunk_message;
-        process.stdout.write(chunk_message);
+        if (chunk.usage) {
+          usage = chunk.usage;
+        }
+        cache_hit ||= Boolean(chunk.cache_hit);
+        if (on_token) {
+          if (chunk_message) on_token(chunk_message);
+        } else {
+          process.stdout.write(chunk_message);
+        }
+      }
+      if (!on_token) {
+        console.log('');
       }
-      console.log('');
       const full_response = collected_messages.join('').trim();
       if (!full_response) {
         throw new ValueError('Empty response from streaming LLM');
       }
-      const completion_tokens = this.count_tokens(completion_text);
-      console.log(`Estimated completion tokens for streaming response: ${completion_tokens}`);
-      this.total_completion_tokens += completion_tokens;
+      this._record_usage(
+        usage,
+        input_tokens,
+        () => {
+          const completion_tokens = this.count_tokens(completion_text);
+          console.log(`Estimated completion tokens for streaming response: ${completion_tokens}`);
+          return completion_tokens;
+        },
+        budget,
+        cache_hit,
+      );
       return full_response;
     } catch (e) {
+      if (is_abort_error(e)) {
+        throw to_abort_error(e);
+      }
       console.error(e);
       throw e;
     }
   }
-  @retry({ wait: 30 * 1000, stop: 6, retry: (error) => !(error instanceof TokenLimitExceeded) })
-  async ask_with_image({
+  async ask_with_image(params: AskWithImageParams): Promise<string> {
+    // Images go to the vision profile when there is one
+    const llm = this.vision_llm ?? this;
+    return llm._with_fallbacks((chained) => chained._ask_with_image(params));
+  }
+  @retry(RETRY_OPTIONS)
+  private async _ask_with_image({
     messages,
     system_msgs,
     images,
     stream = false,
     temperature,
-  }: {
-    messages: Array<Message | any>;
-    images: Array<string | Record<string, any>>;
-    system_msgs?: Array<Message | any>;
-    stream?: boolean;
-    temperature?: number;
-  }): Promise<string> {
+    signal,
+    budget,
+    on_token,
+  }: AskWithImageParams): Promise<string> {
     try {
-      if (!MULTIMODAL_MODELS.includes(this.model)) {
-        throw new ValueError(
-          `Model ${this.model} does not support images. Use a model from ${MULTIMODAL_MODELS}`,
+      if (!this.capabilities.vision) {
+        throw new UnsupportedCapability(
+          `Model ${this.model} does not support images. Use a vision model or set ` +
+            `capabilities.vision in its settings`,
         );
       }
       const formatted_messages = LLM.format_messages(messages, true);
@@ -431,120 +1021,218 @@ export class LLM {
       if (!this.check_token_limit(input_tokens)) {
         throw new TokenLimitExceeded(this.get_limit_error_message(input_tokens));
       }
-      const params: ChatCompletionCreateParamsBase = {
+      budget?.check(input_tokens);
+      const params: ChatRequest = {
         model: this.model,
         messages: all_messages,
-        stream,
+        ...this._completion_params(temperature, stream),
       };
-      if (REASONING_MODELS.includes(this.model)) {
-        params.max_completion_tokens = this.max_tokens;
-      } else {
-        params.max_tokens = this.max_tokens;
-        params.temperature = temperature || this.temperature;
-      }
       if (!stream) {
-        const response = await this.client.chat.completions.create({ ...params, stream: false });
-        if (!response.choices[0].message.content) {
+        const response = await this._complete(params, input_tokens, signal);
+        if (!response.message.content) {
           throw new ValueError('Empty or invalid response from LLM');
         }
-        this.update_token_count(response.usage?.prompt_tokens || 0);
-        return response.choices[0].message.content;
+        const content = response.message.content;
+        this._record_usage(
+          response.usage,
+          input_tokens,
+          () => this.count_tokens(content),
+          budget,
+          response.cache_hit,
+        );
+        return content;
       }
-      this.update_token_count(input_tokens);
-      const response = await this.client.chat.completions.create({
-        ...params,
-        stream: true,
-      });
       const collected_messages = [];
-      for await (const chunk of response) {
-        const chunk_message = chunk.choices[0].delta?.content || '';
+      let usage: ChatUsage | undefined;
+      let cache_hit = false;
+      for await (const chunk of this._stream(params, input_tokens, signal)) {
+        const chunk_message = chunk.content || '';
         collected_messages.push(chunk_message);
-        process.stdout.write(chunk_message);
+        if (chunk.usage) {
+          usage = chunk.usage;
+        }
+        cache_hit ||= Boolean(chunk.cache_hit);
+        if (on_token) {
+          if (chunk_message) on_token(chunk_message);
+        } else {
+          process.stdout.write(chunk_message);
+        }
+      }
+      if (!on_token) {
+        console.log('');
       }
-      console.log('');
       const full_response = collected_messages.join('').trim();
       if (!full_response) {
         throw new ValueError('Empty response from streaming LLM');
       }
+      this._record_usage(
+        usage,
+        input_tokens,
+        () => this.count_tokens(full_response),
+        budget,
+        cache_hit,
+      );
       return full_response;
     } catch (e) {
+      if (is_abort_error(e)) {
+        throw to_abort_error(e);
+      }
       console.error(e);
       throw e;
     }
   }
-  @retry({ wait: 30 * 1000, stop: 6, retry: (error) => !(error instanceof TokenLimitExceeded) })
-  async ask_tool({
+  async ask_tool(params: AskToolParams): Promise<ChatCompletionMessage | null> {
+    return this._with_fallbacks((llm) => llm._ask_tool(params));
+  }
+  @retry(RETRY_OPTIONS)
+  private async _ask_tool({
     messages,
     system_msgs,
     tools,
     tool_choice = ToolChoice.AUTO,
     temperature,
+    stream = false,
+    signal,
+    budget,
+    on_delta,
     ...extra
-  }: {
-    messages: Array<Message | any>;
-    system_msgs?: Array<Message | any>;
-    tools?: any[];
-    tool_choice?: TOOL_CHOICE_TYPE;
-    temperature?: number;
-  }): Promise<ChatCompletionMessage | null> {
+  }: AskToolParams): Promise<ChatCompletionMessage | null> {
     try {
       if (!TOOL_CHOICE_VALUES.includes(tool_choice)) {
         throw new ValueError(`Invalid tool_choice: ${tool_choice}`);
       }
-      const supports_images = MULTIMODAL_MODELS.includes(this.model);
+      if (tools?.length && !this.capabilities.tool_calling) {
+        throw new UnsupportedCapability(
+          `Model ${this.model} does not support tool calling. Use another model or set ` +
+            `capabilities.tool_calling in its settings`,
+        );
+      }
+      const supports_images = this.capabilities.vision;
       if (system_msgs) {
         system_msgs = LLM.format_messages(system_msgs, supports_images);
-        messages = system_msgs.concat(messages);
+        messages = system_msgs.concat(LLM.format_messages(messages, supports_images));
       } else {
         messages = LLM.format_messages(messages, supports_images);
       }
-      let input_tokens = this.count_message_tokens(messages);
-      let tools_token = 0;
-      if (tools) {
-        for (const tool of tools) {
-          tools_token += this.count_tokens(tool);
-        }
-      }
-      input_tokens += tools_token;
+      LLM.validate_transcript(messages);
+      const input_tokens =
+        this.count_message_tokens(messages) + this.token_counter.count_tools(tools ?? []);
 
       if (!this.check_token_limit(input_tokens)) {
         throw new TokenLimitExceeded(this.get_limit_error_message(input_tokens));
       }
+      budget?.check(input_tokens);
 
       if (tools) {
         for (const tool of tools) {
-          if (typeof tool !== 'object' || !('type' in tools)) {
+          if (typeof tool !== 'object' || !('type' in tool)) {
             throw new ValueError(`Each tool must be a dict with 'type' field`);
           }
         }
       }
-      const params: ChatCompletionCreateParamsNonStreaming = {
+      const params: ChatRequest = {
         model: this.model,
         messages,
         tools,
         tool_choice,
-        stream: false,
+        ...this._completion_params(temperature, stream),
         ...extra,
       };
-      if (REASONING_MODELS.includes(this.model)) {
-        params.max_completion_tokens = this.max_tokens;
-      } else {
-        params.max_tokens = this.max_tokens;
-        params.temperature = temperature || this.temperature;
-      }
-      params.stream = false;
-      const response = await this.client.chat.completions.create(params);
-      if (!response?.choices || !response.choices[0].message) {
-        return null;
+      if (stream) {
+        return await this._stream_tool_response(params, input_tokens, {
+          signal,
+          budget,
+          on_delta,
+        });
       }
-      this.update_token_count(
-        response.usage?.prompt_tokens || 0,
-        response.usage?.completion_tokens,
+      const response = await this._complete(params, input_tokens, signal);
+      this._record_usage(
+        response.usage,
+        input_tokens,
+        () =>
+          this.count_completion_tokens(
+            response.message.content ?? '',
+            response.message.tool_calls ?? [],
+          ),
+        budget,
+        response.cache_hit,
       );
-      return response.choices[0].message;
+      return response.message;
     } catch (e) {
+      if (is_abort_error(e)) {
+        throw to_abort_error(e);
+      }
       console.error(e);
       throw e;
     }
   }
+  /**
+   * Stream a tool-enabled response, assembling tool calls from their deltas
+   * by index into the message a non-streamed request returns.
+   */
+  private async _stream_tool_response(
+    params: ChatRequest,
+    input_tokens: number,
+    {
+      signal,
+      budget,
+      on_delta,
+    }: {
+      signal?: AbortSignal;
+      budget?: TokenBudget;
+      on_delta?: (delta: ToolStreamDelta) => void;
+    },
+  ): Promise<ChatCompletionMessage> {
+    let content = '';
+    const calls: Array<{ id: string; name: string; arguments: string }> = [];
+    let usage: ChatUsage | undefined;
+    let cache_hit = false;
+
+    for await (const chunk of this._stream(params, input_tokens, signal)) {
+      if (chunk.content) {
+        content += chunk.content;
+        on_delta?.({ type: 'content', delta: chunk.content });
+      }
+      for (const tool_call of chunk.tool_calls ?? []) {
+        const call = (calls[tool_call.index] ??= { id: '', name: '', arguments: '' });
+        if (tool_call.id) {
+          call.id = tool_call.id;
+        }
+        // The name comes whole in the first delta of a call
+        if (tool_call.function?.name && !call.name) {
+          call.name = tool_call.function.name;
+        }
+        call.arguments += tool_call.function?.arguments ?? '';
+        on_delta?.({
+          type: 'tool_call',
+          index: tool_call.index,
+          id: tool_call.id,
+          name: tool_call.function?.name,
+          delta: tool_call.function?.arguments ?? '',
+        });
+      }
+      if (chunk.usage) {
+        usage = chunk.usage;
+      }
+      cache_hit ||= Boolean(chunk.cache_hit);
+    }
+
+    const tool_calls = calls
+      .map((call, index) => ({ ...call, id: call.id || `call_${index}` }))
+      .filter((call) => call && call.name)
+      .map((call) => ({
+        id: call.id,
+        type: 'function' as const,
+        function: { name: call.name, arguments: call.arguments },
+      }));
+
+    this._record_usage(
+      usage,
+      input_tokens,
+      () => this.count_completion_tokens(content, tool_calls),
+      budget,
+      cache_hit,
+    );
+    return assistant_message(content || null, tool_calls);
+  }
 }
@@ -0,0 +1,6 @@
+export const COMPACTION_SYSTEM_PROMPT = `You compress the history of a conversation between a user, an AI agent and the tools it called.
+Write a concise summary of the transcript you are given that lets the agent continue its work without it.
+Keep every fact the agent still needs: decisions made, results of tool calls, file names, identifiers, numbers, open questions and errors encountered.
+Drop pleasantries, repetition and intermediate reasoning that led nowhere. Write in the third person and do not add anything that is not in the transcript.`;
+
+export const SUMMARY_MESSAGE_PREFIX = '[Summary of the earlier conversation]';
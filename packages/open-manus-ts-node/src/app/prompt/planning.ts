@@ -0,0 +1,27 @@
+export const PLANNING_SYSTEM_PROMPT = `You are a planning assistant. Create a concise, actionable plan with clear steps.
+Focus on key milestones rather than detailed sub-steps.
+Optimize for clarity and efficiency.`;
+
+export const AGENTS_PROMPT = `Now we have {agents_count} agents. The information of them are below:
+{agents_description}
+When creating steps in the planning tool, please specify the agent name in front of each step using the format '[agent_name]'.`;
+
+export const CREATE_PLAN_PROMPT =
+  'Create a reasonable plan with clear steps to accomplish the task: {request}';
+
+export const EXECUTE_STEP_PROMPT = `CURRENT PLAN STATUS:
+{plan_status}
+
+YOUR CURRENT TASK:
+You are now working on step {step_index}: "{step_text}"
+
+Please only execute this current step using the appropriate tools. When you're done, provide a summary of what you accomplished.`;
+
+export const FINALIZE_SYSTEM_PROMPT =
+  'You are a planning assistant. Your task is to summarize the completed plan.';
+
+export const FINALIZE_PROMPT = `The plan has been completed. Here is the final plan status:
+
+{plan_status}
+
+Please provide a summary of what was accomplished and any final thoughts.`;
@@ -2,3 +2,7 @@ export const SYSTEM_PROMPT = 'You are an agent that can execute tool calls';
 
 export const NEXT_STEP_PROMPT =
   'If you want to stop interaction, use `terminate` tool/function call.';
+
+export const BUDGET_WRAP_UP_PROMPT =
+  'Your token budget is almost spent. Do not start new work: summarize what was done ' +
+  'and what is left, then use `terminate` tool/function call.';
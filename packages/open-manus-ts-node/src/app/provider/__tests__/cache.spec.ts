@@ -0,0 +1,207 @@
+import { mkdtemp, readdir, rm, stat, utimes, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { basename, dirname, join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { LLMSettings, config } from '@/app/config';
+import { LLM, type TokenUsage } from '@/app/llm';
+import type { ChatChunk, ChatRequest } from '@/app/provider/base';
+import { CachingProvider, ResponseCache, cache_key } from '@/app/provider/cache';
+import { ScriptedProvider } from '@/app/provider/scripted';
+
+const request: ChatRequest = {
+  model: 'scripted-model',
+  messages: [{ role: 'user', content: 'What is in /tmp?' }],
+  temperature: 0,
+};
+
+const answer = {
+  content: 'Let me look',
+  tool_calls: [{ id: 'call_1', name: 'bash', arguments: { command: 'ls /tmp' } }],
+  usage: { prompt_tokens: 20, completion_tokens: 8 },
+};
+
+async function collect(chunks: AsyncIterable<ChatChunk>): Promise<ChatChunk[]> {
+  const collected: ChatChunk[] = [];
+  for await (const chunk of chunks) {
+    collected.push(chunk);
+  }
+  return collected;
+}
+
+describe('cache_key', () => {
+  test('does not depend on the order of object keys', () => {
+    const reordered = { temperature: 0, messages: request.messages, model: request.model };
+    expect(cache_key(reordered)).toBe(cache_key(request));
+  });
+
+  test('differs with what decides the answer', () => {
+    const key = cache_key(request);
+    expect(cache_key({ ...request, temperature: 0.5 })).not.toBe(key);
+    expect(cache_key({ ...request, model: 'other' })).not.toBe(key);
+    expect(cache_key({ ...request, tool_choice: 'required' })).not.toBe(key);
+    expect(cache_key({ ...request, messages: [{ role: 'user', content: 'Hi' }] })).not.toBe(key);
+  });
+
+  test('ignores the options that do not change the answer', () => {
+    expect(cache_key({ ...request, max_tokens: 100, stream_options: null })).toBe(
+      cache_key(request),
+    );
+  });
+});
+
+describe('CachingProvider', () => {
+  let dir: string;
+  let cache: ResponseCache;
+  let scripted: ScriptedProvider;
+  let provider: CachingProvider;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'llm-cache-'));
+    cache = new ResponseCache({ dir });
+    scripted = new ScriptedProvider({ script: [answer, answer] });
+    provider = new CachingProvider({ provider: scripted, cache });
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('keeps responses in the workspace by default', () => {
+    const { dir } = new ResponseCache();
+    expect(basename(dir)).toBe('llm_cache');
+    expect(basename(dirname(dir))).toBe('workspace');
+  });
+
+  test('calls the provider on a miss and serves the response on a hit', async () => {
+    const miss = await provider.complete(request);
+    expect(miss.cache_hit).toBeUndefined();
+    const hit = await provider.complete(request);
+    expect(hit).toEqual({ ...miss, cache_hit: true });
+    expect(scripted.requests).toHaveLength(1);
+  });
+
+  test('calls the provider for another request', async () => {
+    await provider.complete(request);
+    await provider.complete({ ...request, temperature: 1 });
+    expect(scripted.requests).toHaveLength(2);
+  });
+
+  test('replays a streamed response with its tool calls', async () => {
+    const streamed = CachingProvider.from_chunks(await collect(provider.stream(request)));
+    const chunks = await collect(provider.stream(request));
+    expect(chunks.at(-1)?.cache_hit).toBe(true);
+    expect(CachingProvider.from_chunks(chunks)).toEqual(streamed);
+    expect(streamed.message.tool_calls).toEqual([
+      {
+        id: 'call_1',
+        type: 'function',
+        function: { name: 'bash', arguments: '{"command":"ls /tmp"}' },
+      },
+    ]);
+    expect(scripted.requests).toHaveLength(1);
+  });
+
+  test('shares entries between streamed and complete requests', async () => {
+    const response = await provider.complete(request);
+    const chunks = await collect(provider.stream(request));
+    expect(CachingProvider.from_chunks(chunks).message).toEqual(response.message);
+    expect(scripted.requests).toHaveLength(1);
+  });
+
+  test('does not cache a stream that failed', async () => {
+    scripted.script = [];
+    await expect(collect(provider.stream(request))).rejects.toThrow();
+    expect(await readdir(dir).catch(() => [])).toEqual([]);
+  });
+
+  test('answers when the cache cannot be written', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(cache, 'set').mockRejectedValue(new Error('disk full'));
+    await expect(provider.complete(request)).resolves.toMatchObject({
+      finish_reason: 'tool_calls',
+    });
+    expect(warn).toHaveBeenCalledWith('Could not cache LLM response: Error: disk full');
+    vi.restoreAllMocks();
+  });
+});
+
+describe('ResponseCache', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'llm-cache-'));
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const response = { message: { role: 'assistant' as const, content: 'Hi', refusal: null } };
+
+  test('does not serve expired entries', async () => {
+    const cache = new ResponseCache({ dir, ttl: 1000 });
+    await cache.set('key', response);
+    expect(await cache.get('key')).toEqual(response);
+    vi.useFakeTimers({ now: Date.now() + 2000 });
+    expect(await cache.get('key')).toBeUndefined();
+    expect(await readdir(dir)).toEqual([]);
+  });
+
+  test('ignores unreadable entries', async () => {
+    const cache = new ResponseCache({ dir });
+    await writeFile(cache.path_for('key'), 'not json', 'utf-8');
+    expect(await cache.get('key')).toBeUndefined();
+  });
+
+  test('evicts the least recently used entries over the size cap', async () => {
+    const cache = new ResponseCache({ dir });
+    await cache.set('a', response);
+    await cache.set('b', response);
+    const { size } = await stat(cache.path_for('a'));
+    // Room for two entries and a half
+    cache.max_bytes = size * 2.5;
+    const an_hour_ago = new Date(Date.now() - 3600_000);
+    await utimes(cache.path_for('a'), an_hour_ago, an_hour_ago);
+    await utimes(cache.path_for('b'), an_hour_ago, an_hour_ago);
+    // Reading `a` marks it used, `b` is the least recently used
+    await cache.get('a');
+    await cache.set('c', response);
+    expect((await readdir(dir)).sort()).toEqual(['a.json', 'c.json']);
+  });
+});
+
+describe('LLM with a response cache', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'llm-cache-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('reports cache hits apart from the calls it paid for', async () => {
+    const llm = new LLM({
+      config_name: 'cache_test',
+      llm_config: new LLMSettings({
+        ...config.llm['default'],
+        api_type: 'scripted',
+        model: 'scripted-model',
+        script: [{ content: 'Hello', usage: { prompt_tokens: 10, completion_tokens: 2 } }],
+        cache: { enabled: true, dir },
+      }),
+    });
+    const usages: TokenUsage[] = [];
+    llm.events.on('token_usage', (usage) => {
+      usages.push(usage);
+    });
+    const messages = [{ role: 'user', content: 'Hi' }];
+    expect(await llm.ask({ messages, stream: false })).toBe('Hello');
+    expect(await llm.ask({ messages, stream: false })).toBe('Hello');
+    expect(usages.map((usage) => Boolean(usage.cache_hit))).toEqual([false, true]);
+    expect(usages[1]).toMatchObject({ input_tokens: 10, completion_tokens: 2 });
+    expect(llm.total_input_tokens).toBe(10);
+  });
+});
@@ -0,0 +1,126 @@
+import { mkdir, mkdtemp, readFile, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+import type { ChatChunk, ChatRequest } from '@/app/provider/base';
+import { type CassetteFile, RecordingProvider, ReplayProvider } from '@/app/provider/cassette';
+import { ScriptedProvider } from '@/app/provider/scripted';
+import { NoRecordedResponse } from '@/app/utils/error';
+
+function ask(content: string): ChatRequest {
+  return { model: 'scripted-model', messages: [{ role: 'user', content }] };
+}
+
+async function collect(chunks: AsyncIterable<ChatChunk>): Promise<ChatChunk[]> {
+  const collected: ChatChunk[] = [];
+  for await (const chunk of chunks) {
+    collected.push(chunk);
+  }
+  return collected;
+}
+
+describe('ScriptedProvider', () => {
+  test('answers with the script in order and keeps the requests', async () => {
+    const provider = new ScriptedProvider({
+      script: [
+        { content: 'Hello' },
+        (request) => ({ content: `You said ${request.messages.length} things` }),
+      ],
+    });
+    expect((await provider.complete(ask('Hi'))).message.content).toBe('Hello');
+    expect((await provider.complete(ask('Again'))).message.content).toBe('You said 1 things');
+    expect(provider.requests).toEqual([ask('Hi'), ask('Again')]);
+  });
+
+  test('streams tool calls with serialized arguments', async () => {
+    const provider = new ScriptedProvider({
+      script: [{ tool_calls: [{ id: 'call_1', name: 'bash', arguments: { command: 'ls' } }] }],
+    });
+    const chunks = await collect(provider.stream(ask('List')));
+    const args = chunks.flatMap((chunk) => chunk.tool_calls ?? []);
+    expect(args[0]).toMatchObject({ id: 'call_1', function: { name: 'bash' } });
+    expect(args.map((call) => call.function?.arguments ?? '').join('')).toBe('{"command":"ls"}');
+    expect(chunks.at(-1)?.finish_reason).toBe('tool_calls');
+  });
+
+  test('fails once the script is used up', async () => {
+    const provider = new ScriptedProvider();
+    await expect(provider.complete(ask('Hi'))).rejects.toThrow(NoRecordedResponse);
+  });
+});
+
+describe('cassettes', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'cassette-'));
+    path = join(dir, 'run.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  function recorder(...script: string[]): RecordingProvider {
+    const provider = new ScriptedProvider({ script: script.map((content) => ({ content })) });
+    return new RecordingProvider({ provider, path });
+  }
+
+  test('replays what was recorded', async () => {
+    const recording = recorder('Hello', 'Streamed');
+    const recorded = await recording.complete(ask('Hi'));
+    const streamed = await collect(recording.stream(ask('Stream it')));
+
+    const replay = new ReplayProvider({ path });
+    expect(await replay.complete(ask('Hi'))).toEqual(recorded);
+    expect(await collect(replay.stream(ask('Stream it')))).toEqual(streamed);
+  });
+
+  test('replays the responses of a repeated request in order, then the last one', async () => {
+    const recording = recorder('first', 'second');
+    await recording.complete(ask('Hi'));
+    await recording.complete(ask('Hi'));
+
+    const replay = new ReplayProvider({ path });
+    const answers = [];
+    for (let i = 0; i < 3; i++) {
+      answers.push((await replay.complete(ask('Hi'))).message.content);
+    }
+    expect(answers).toEqual(['first', 'second', 'second']);
+  });
+
+  test('fails on a request that was not recorded', async () => {
+    await recorder('Hello').complete(ask('Hi'));
+    const replay = new ReplayProvider({ path });
+    await expect(replay.complete(ask('Something else'))).rejects.toThrow(NoRecordedResponse);
+    // A complete request does not replay a streamed recording
+    await expect(collect(replay.stream(ask('Hi')))).rejects.toThrow(NoRecordedResponse);
+  });
+
+  test('fails on a missing cassette', async () => {
+    const replay = new ReplayProvider({ path: join(dir, 'missing.json') });
+    await expect(replay.complete(ask('Hi'))).rejects.toThrow(/^Cassette not found: /);
+  });
+
+  test('keeps the interactions of every recorder of a file', async () => {
+    await Promise.all([recorder('one').complete(ask('1')), recorder('two').complete(ask('2'))]);
+    const cassette: CassetteFile = JSON.parse(await readFile(path, 'utf-8'));
+    expect(cassette.interactions.map((i) => i.response?.message.content).sort()).toEqual([
+      'one',
+      'two',
+    ]);
+    expect(await readdir(dir)).toEqual(['run.json']);
+  });
+
+  test('records again after a failed write', async () => {
+    const recording = recorder('lost', 'kept');
+    // A directory in place of the cassette makes the write fail
+    await mkdir(path);
+    await expect(recording.complete(ask('1'))).rejects.toThrow();
+    await rm(path, { recursive: true });
+    await recording.complete(ask('2'));
+    const cassette: CassetteFile = JSON.parse(await readFile(path, 'utf-8'));
+    expect(cassette.interactions.map((i) => i.response?.message.content)).toEqual(['lost', 'kept']);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, test } from 'vitest';
+import { ErrorKind, classify_error, is_transient, retry_after_ms } from '@/app/provider/errors';
+import { ProviderError, ValueError } from '@/app/utils/error';
+
+describe('classify_error', () => {
+  test.each([
+    [429, ErrorKind.RATE_LIMIT],
+    [408, ErrorKind.TIMEOUT],
+    [401, ErrorKind.AUTH],
+    [403, ErrorKind.AUTH],
+    [400, ErrorKind.BAD_REQUEST],
+    [404, ErrorKind.BAD_REQUEST],
+    [500, ErrorKind.SERVER],
+    [503, ErrorKind.SERVER],
+  ])('classifies status %i as %s', (status, kind) => {
+    expect(classify_error(new ProviderError('failed', { status }))).toBe(kind);
+  });
+
+  test('classifies network failures by their code', () => {
+    const reset = Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+    const timeout = new Error('request failed', {
+      cause: Object.assign(new Error('timeout'), { code: 'UND_ERR_HEADERS_TIMEOUT' }),
+    });
+    expect(classify_error(reset)).toBe(ErrorKind.CONNECTION);
+    expect(classify_error(timeout)).toBe(ErrorKind.TIMEOUT);
+    expect(classify_error(new TypeError('fetch failed'))).toBe(ErrorKind.CONNECTION);
+  });
+
+  test('classifies errors reported in a stream by their message', () => {
+    expect(classify_error(new ProviderError('Overloaded'))).toBe(ErrorKind.SERVER);
+    expect(classify_error(new ProviderError('rate limit exceeded'))).toBe(ErrorKind.RATE_LIMIT);
+  });
+
+  test('classifies errors of our own code as bad requests', () => {
+    expect(classify_error(new ValueError('Invalid role'))).toBe(ErrorKind.BAD_REQUEST);
+    expect(classify_error(new TypeError('x is undefined'))).toBe(ErrorKind.BAD_REQUEST);
+    expect(classify_error('failed')).toBe(ErrorKind.BAD_REQUEST);
+  });
+});
+
+describe('is_transient', () => {
+  test('retries only the failures a retry may fix', () => {
+    expect(is_transient(new ProviderError('failed', { status: 429 }))).toBe(true);
+    expect(is_transient(new ProviderError('failed', { status: 502 }))).toBe(true);
+    expect(is_transient(new ProviderError('failed', { status: 401 }))).toBe(false);
+    expect(is_transient(new ProviderError('failed', { status: 422 }))).toBe(false);
+    expect(is_transient(new ValueError('Invalid role'))).toBe(false);
+  });
+});
+
+describe('retry_after_ms', () => {
+  const error_with = (headers: Record<string, string>) =>
+    new ProviderError('failed', { status: 429, headers: new Headers(headers) });
+
+  test('reads retry-after-ms first', () => {
+    expect(retry_after_ms(error_with({ 'retry-after-ms': '250', 'retry-after': '3' }))).toBe(250);
+  });
+
+  test('reads retry-after in seconds or as a date', () => {
+    expect(retry_after_ms(error_with({ 'retry-after': '3' }))).toBe(3000);
+    const in_a_minute = new Date(Date.now() + 60_000).toUTCString();
+    const wait = retry_after_ms(error_with({ 'retry-after': in_a_minute }))!;
+    expect(wait).toBeGreaterThan(55_000);
+    expect(wait).toBeLessThanOrEqual(60_000);
+  });
+
+  test('is undefined without a usable header', () => {
+    expect(retry_after_ms(error_with({ 'retry-after': 'soon' }))).toBeUndefined();
+    expect(retry_after_ms(new ProviderError('failed'))).toBeUndefined();
+    expect(retry_after_ms(new Error('failed'))).toBeUndefined();
+  });
+});
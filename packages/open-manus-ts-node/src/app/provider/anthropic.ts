@@ -0,0 +1,294 @@
+import type { ChatCompletionMessageToolCall } from 'openai/resources';
+import type { ChatChunk, ChatRequest, ChatResponse, ProviderSettings } from '@/app/provider/base';
+import {
+  LLMProvider,
+  assistant_message,
+  parse_arguments,
+  parse_data_url,
+  read_lines,
+  text_of,
+} from '@/app/provider/base';
+import { ToolChoice } from '@/app/schema';
+import { ProviderError } from '@/app/utils/error';
+
+const DEFAULT_BASE_URL = 'https://api.anthropic.com';
+const DEFAULT_API_VERSION = '2023-06-01';
+// The Messages API requires max_tokens
+const DEFAULT_MAX_TOKENS = 4096;
+
+// Anthropic stop reasons to OpenAI finish reasons
+const FINISH_REASONS: Record<string, string> = {
+  end_turn: 'stop',
+  stop_sequence: 'stop',
+  max_tokens: 'length',
+  tool_use: 'tool_calls',
+};
+
+// HTTP status of the errors sent in a stream, which arrive after a 200
+const STREAM_ERROR_STATUSES: Record<string, number> = {
+  invalid_request_error: 400,
+  authentication_error: 401,
+  permission_error: 403,
+  rate_limit_error: 429,
+  api_error: 500,
+  overloaded_error: 529,
+};
+
+type ContentBlock = Record<string, any>;
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: ContentBlock[];
+}
+
+/**
+ * Provider for the Anthropic Messages API, called with fetch.
+ */
+export class AnthropicProvider extends LLMProvider {
+  readonly name = 'anthropic';
+
+  constructor({ base_url, api_key, api_version }: Omit<ProviderSettings, 'model'>) {
+    super({
+      base_url: base_url || DEFAULT_BASE_URL,
+      api_key,
+      api_version: api_version || DEFAULT_API_VERSION,
+    });
+  }
+
+  async complete(request: ChatRequest, signal?: AbortSignal): Promise<ChatResponse> {
+    const response = await this._send(request, false, signal);
+    const body = (await response.json()) as Record<string, any>;
+
+    const text_parts: string[] = [];
+    const tool_calls: ChatCompletionMessageToolCall[] = [];
+    for (const block of body.content ?? []) {
+      if (block.type === 'text') {
+        text_parts.push(block.text);
+      } else if (block.type === 'tool_use') {
+        tool_calls.push({
+          id: block.id,
+          type: 'function',
+          function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+        });
+      }
+    }
+    return {
+      message: assistant_message(text_parts.length ? text_parts.join('') : null, tool_calls),
+      usage: body.usage && {
+        ...AnthropicProvider.convert_input_usage(body.usage),
+        completion_tokens: body.usage.output_tokens ?? 0,
+      },
+      finish_reason: FINISH_REASONS[body.stop_reason] ?? body.stop_reason,
+    };
+  }
+
+  async *stream(request: ChatRequest, signal?: AbortSignal): AsyncIterable<ChatChunk> {
+    const response = await this._send(request, true, signal);
+    let input_usage = { prompt_tokens: 0, cached_tokens: 0 };
+    // Content block index to tool call index
+    const tool_indexes = new Map<number, number>();
+
+    for await (const line of read_lines(response)) {
+      if (!line.startsWith('data:')) {
+        continue;
+      }
+      const event = JSON.parse(line.slice('data:'.length).trim());
+      switch (event.type) {
+        case 'message_start':
+          input_usage = AnthropicProvider.convert_input_usage(event.message?.usage ?? {});
+          break;
+        case 'content_block_start':
+          if (event.content_block?.type === 'tool_use') {
+            const index = tool_indexes.size;
+            tool_indexes.set(event.index, index);
+            yield {
+              tool_calls: [
+                {
+                  index,
+                  id: event.content_block.id,
+                  type: 'function',
+                  function: { name: event.content_block.name, arguments: '' },
+                },
+              ],
+            };
+          }
+          break;
+        case 'content_block_delta':
+          if (event.delta?.type === 'text_delta') {
+            yield { content: event.delta.text };
+          } else if (event.delta?.type === 'input_json_delta') {
+            yield {
+              tool_calls: [
+                {
+                  index: tool_indexes.get(event.index) ?? 0,
+                  function: { arguments: event.delta.partial_json },
+                },
+              ],
+            };
+          }
+          break;
+        case 'message_delta':
+          yield {
+            usage: { ...input_usage, completion_tokens: event.usage?.output_tokens ?? 0 },
+            finish_reason: FINISH_REASONS[event.delta?.stop_reason] ?? event.delta?.stop_reason,
+          };
+          break;
+        case 'error':
+          throw new ProviderError(`anthropic API error: ${JSON.stringify(event.error)}`, {
+            status: STREAM_ERROR_STATUSES[event.error?.type],
+          });
+      }
+    }
+  }
+
+  private _send(request: ChatRequest, stream: boolean, signal?: AbortSignal): Promise<Response> {
+    const { system, messages } = AnthropicProvider.convert_messages(request.messages);
+    const body: Record<string, any> = {
+      model: request.model,
+      messages,
+      max_tokens: request.max_tokens ?? request.max_completion_tokens ?? DEFAULT_MAX_TOKENS,
+      stream,
+    };
+    if (system) {
+      body.system = system;
+    }
+    if (request.temperature != null) {
+      body.temperature = request.temperature;
+    }
+    if (request.tools?.length) {
+      body.tools = AnthropicProvider.convert_tools(request.tools);
+      body.tool_choice = AnthropicProvider.convert_tool_choice(request.tool_choice);
+    }
+    return this.post(
+      `${this.base_url.replace(/\/+$/, '').replace(/\/v1$/, '')}/v1/messages`,
+      body,
+      { 'x-api-key': this.api_key, 'anthropic-version': this.api_version },
+      signal,
+    );
+  }
+
+  /**
+   * Convert OpenAI messages: system messages become the system prompt, tool
+   * calls and results become tool_use and tool_result blocks, and consecutive
+   * messages of the same role are merged as the API requires alternation.
+   */
+  static convert_messages(openai_messages: ChatRequest['messages']): {
+    system: string;
+    messages: AnthropicMessage[];
+  } {
+    const system: string[] = [];
+    const messages: AnthropicMessage[] = [];
+    const push = (role: AnthropicMessage['role'], content: ContentBlock[]) => {
+      if (content.length === 0) {
+        return;
+      }
+      const last = messages[messages.length - 1];
+      if (last && last.role === role) {
+        last.content.push(...content);
+      } else {
+        messages.push({ role, content });
+      }
+    };
+
+    for (const message of openai_messages as Record<string, any>[]) {
+      switch (message.role) {
+        case 'system':
+        case 'developer':
+          system.push(text_of(message.content));
+          break;
+        case 'user':
+          push('user', AnthropicProvider.convert_content(message.content));
+          break;
+        case 'assistant': {
+          const content = AnthropicProvider.convert_content(message.content);
+          for (const tool_call of message.tool_calls ?? []) {
+            content.push({
+              type: 'tool_use',
+              id: tool_call.id,
+              name: tool_call.function.name,
+              input: parse_arguments(tool_call.function.arguments),
+            });
+          }
+          push('assistant', content);
+          break;
+        }
+        case 'tool':
+          push('user', [
+            {
+              type: 'tool_result',
+              tool_use_id: message.tool_call_id,
+              content: AnthropicProvider.convert_content(message.content),
+            },
+          ]);
+          break;
+      }
+    }
+    return { system: system.filter(Boolean).join('\n\n'), messages };
+  }
+
+  static convert_content(content: unknown): ContentBlock[] {
+    if (typeof content === 'string') {
+      return content ? [{ type: 'text', text: content }] : [];
+    }
+    if (!Array.isArray(content)) {
+      return [];
+    }
+    const blocks: ContentBlock[] = [];
+    for (const part of content) {
+      if (typeof part === 'string') {
+        blocks.push({ type: 'text', text: part });
+      } else if (part?.type === 'text' && part.text) {
+        blocks.push({ type: 'text', text: part.text });
+      } else if (part?.type === 'image_url') {
+        const url = typeof part.image_url === 'string' ? part.image_url : part.image_url?.url;
+        const data_url = parse_data_url(url ?? '');
+        blocks.push({
+          type: 'image',
+          source: data_url
+            ? { type: 'base64', media_type: data_url.media_type, data: data_url.data }
+            : { type: 'url', url },
+        });
+      }
+    }
+    return blocks;
+  }
+
+  /**
+   * Anthropic counts cache reads and writes apart from the other input tokens,
+   * OpenAI includes them in the prompt tokens.
+   */
+  static convert_input_usage(usage: Record<string, any>): {
+    prompt_tokens: number;
+    cached_tokens: number;
+  } {
+    const cached_tokens = usage.cache_read_input_tokens ?? 0;
+    return {
+      prompt_tokens:
+        (usage.input_tokens ?? 0) + cached_tokens + (usage.cache_creation_input_tokens ?? 0),
+      cached_tokens,
+    };
+  }
+
+  static convert_tools(tools: NonNullable<ChatRequest['tools']>): ContentBlock[] {
+    return tools
+      .filter((tool) => tool.type === 'function')
+      .map((tool) => ({
+        name: tool.function.name,
+        description: tool.function.description ?? '',
+        input_schema: tool.function.parameters ?? { type: 'object', properties: {} },
+      }));
+  }
+
+  static convert_tool_choice(tool_choice: ChatRequest['tool_choice']): ContentBlock {
+    if (tool_choice === ToolChoice.REQUIRED) {
+      return { type: 'any' };
+    }
+    if (tool_choice === ToolChoice.NONE) {
+      return { type: 'none' };
+    }
+    if (tool_choice && typeof tool_choice === 'object' && tool_choice.type === 'function') {
+      return { type: 'tool', name: tool_choice.function.name };
+    }
+    return { type: 'auto' };
+  }
+}
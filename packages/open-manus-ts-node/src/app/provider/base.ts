@@ -0,0 +1,173 @@
+import type {
+  ChatCompletionChunk,
+  ChatCompletionMessage,
+  ChatCompletionMessageToolCall,
+} from 'openai/resources';
+import type { ChatCompletionCreateParamsBase } from 'openai/resources/chat/completions/completions';
+import { ProviderError } from '@/app/utils/error';
+
+/**
+ * A chat completion request, in the OpenAI format all providers translate from.
+ */
+export type ChatRequest = Omit<ChatCompletionCreateParamsBase, 'stream'>;
+
+export interface ChatUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  // Prompt tokens served from the provider's cache, included in prompt_tokens
+  cached_tokens?: number;
+}
+
+export interface ChatResponse {
+  message: ChatCompletionMessage;
+  usage?: ChatUsage;
+  finish_reason?: string | null;
+  // Served from the response cache, the usage is the one of the original call
+  cache_hit?: boolean;
+}
+
+/**
+ * A piece of a streamed response. Tool calls arrive as OpenAI-style deltas,
+ * keyed by index, whose arguments must be concatenated.
+ */
+export interface ChatChunk {
+  content?: string;
+  tool_calls?: ChatCompletionChunk.Choice.Delta.ToolCall[];
+  usage?: ChatUsage;
+  finish_reason?: string | null;
+  // Set on the last chunk of a response served from the response cache
+  cache_hit?: boolean;
+}
+
+export interface ProviderSettings {
+  model: string;
+  base_url: string;
+  api_key: string;
+  api_version: string;
+}
+
+/**
+ * Adapter between the LLM class and one chat completion API. Requests and
+ * responses use the OpenAI format, each provider converts messages, tool
+ * schemas and tool calls to and from its native wire format.
+ */
+export abstract class LLMProvider {
+  // Value of `LLMSettings.api_type` selecting the provider
+  abstract readonly name: string;
+  base_url: string;
+  api_key: string;
+  api_version: string;
+
+  constructor({ base_url, api_key, api_version }: Omit<ProviderSettings, 'model'>) {
+    this.base_url = base_url;
+    this.api_key = api_key;
+    this.api_version = api_version;
+  }
+
+  abstract complete(request: ChatRequest, signal?: AbortSignal): Promise<ChatResponse>;
+
+  abstract stream(request: ChatRequest, signal?: AbortSignal): AsyncIterable<ChatChunk>;
+
+  /**
+   * POST a JSON body and fail with a ProviderError on a non-2xx status.
+   */
+  protected async post(
+    url: string,
+    body: Record<string, any>,
+    headers: Record<string, string>,
+    signal?: AbortSignal,
+  ): Promise<Response> {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new ProviderError(`${this.name} API error ${response.status}: ${text}`, {
+        status: response.status,
+        headers: response.headers,
+      });
+    }
+    return response;
+  }
+}
+
+/**
+ * Build an OpenAI assistant message.
+ */
+export function assistant_message(
+  content: string | null,
+  tool_calls: ChatCompletionMessageToolCall[] = [],
+): ChatCompletionMessage {
+  const message: ChatCompletionMessage = { role: 'assistant', content, refusal: null };
+  if (tool_calls.length > 0) {
+    message.tool_calls = tool_calls;
+  }
+  return message;
+}
+
+/**
+ * Split a `data:` URL into its media type and base64 payload.
+ */
+export function parse_data_url(url: string): { media_type: string; data: string } | null {
+  const match = /^data:([^;,]+);base64,(.*)$/s.exec(url);
+  return match ? { media_type: match[1], data: match[2] } : null;
+}
+
+/**
+ * Content of an OpenAI message as plain text, dropping non text parts.
+ */
+export function text_of(content: unknown): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content
+      .map((part) => (typeof part === 'string' ? part : part?.type === 'text' ? part.text : ''))
+      .filter(Boolean)
+      .join('\n');
+  }
+  return '';
+}
+
+/**
+ * Parse tool call arguments, keeping malformed ones as a raw string so the
+ * request still goes through.
+ */
+export function parse_arguments(args: string | undefined): Record<string, any> {
+  if (!args) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(args);
+    return parsed && typeof parsed === 'object' ? parsed : { value: parsed };
+  } catch {
+    return { raw: args };
+  }
+}
+
+/**
+ * Read newline separated lines from a streamed response body.
+ */
+export async function* read_lines(response: Response): AsyncIterable<string> {
+  if (!response.body) {
+    return;
+  }
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for await (const bytes of response.body as unknown as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(bytes, { stream: true });
+    let newline = buffer.indexOf('\n');
+    while (newline !== -1) {
+      yield buffer.slice(0, newline).replace(/\r$/, '');
+      buffer = buffer.slice(newline + 1);
+      newline = buffer.indexOf('\n');
+    }
+  }
+  buffer += decoder.decode();
+  if (buffer) {
+    yield buffer;
+  }
+}
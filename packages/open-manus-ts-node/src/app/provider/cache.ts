@@ -0,0 +1,233 @@
+import { mkdir, readFile, readdir, rename, rm, stat, utimes, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { ChatCompletionMessageFunctionToolCall } from 'openai/resources';
+import type { CacheSettings } from '@/app/config';
+import { config } from '@/app/config';
+import type { ChatChunk, ChatRequest, ChatResponse, ChatUsage } from '@/app/provider/base';
+import { LLMProvider, assistant_message } from '@/app/provider/base';
+import { hash_json } from '@/app/utils/hash';
+
+const CACHE_VERSION = 1;
+
+/**
+ * A cached response and when it was stored.
+ */
+export interface CacheEntry {
+  version: number;
+  key: string;
+  // ms since the epoch
+  created_at: number;
+  response: ChatResponse;
+}
+
+/**
+ * Key a request is cached under: what decides the answer of the model, so
+ * streamed and non-streamed requests share their entries.
+ */
+export function cache_key({
+  model,
+  messages,
+  tools,
+  tool_choice,
+  temperature,
+  response_format,
+}: ChatRequest): string {
+  return hash_json({ model, messages, tools, tool_choice, temperature, response_format });
+}
+
+/**
+ * Responses stored as JSON files, one per key. Entries older than the TTL
+ * are never served, and the least recently used ones are evicted when the
+ * files outgrow the size cap.
+ */
+export class ResponseCache {
+  dir: string;
+  // ms an entry is served for
+  ttl: number;
+  max_bytes: number;
+
+  constructor({
+    dir = join(config.workspace_root, 'llm_cache'),
+    ttl = 7 * 24 * 3600 * 1000,
+    max_bytes = 100 * 1024 * 1024,
+  }: Partial<Pick<ResponseCache, 'dir' | 'ttl' | 'max_bytes'>> = {}) {
+    this.dir = dir;
+    this.ttl = ttl;
+    this.max_bytes = max_bytes;
+  }
+
+  static from_settings({ dir, ttl, max_size }: CacheSettings): ResponseCache {
+    return new ResponseCache({
+      dir,
+      ttl: ttl === undefined ? undefined : ttl * 1000,
+      max_bytes: max_size === undefined ? undefined : max_size * 1024 * 1024,
+    });
+  }
+
+  path_for(key: string): string {
+    return join(this.dir, `${key}.json`);
+  }
+
+  /**
+   * The response stored under a key, unless missing, expired or unreadable.
+   */
+  async get(key: string): Promise<ChatResponse | undefined> {
+    const path = this.path_for(key);
+    let entry: CacheEntry;
+    try {
+      entry = JSON.parse(await readFile(path, 'utf-8'));
+    } catch {
+      return undefined;
+    }
+    if (entry.version !== CACHE_VERSION || Date.now() - entry.created_at > this.ttl) {
+      await rm(path, { force: true });
+      return undefined;
+    }
+    // Touched so eviction spares the entries in use
+    const now = new Date();
+    await utimes(path, now, now).catch(() => undefined);
+    return entry.response;
+  }
+
+  async set(key: string, response: ChatResponse): Promise<void> {
+    const entry: CacheEntry = { version: CACHE_VERSION, key, created_at: Date.now(), response };
+    await mkdir(this.dir, { recursive: true });
+    const path = this.path_for(key);
+    const tmp_path = `${path}.${process.pid}.tmp`;
+    await writeFile(tmp_path, JSON.stringify(entry), 'utf-8');
+    await rename(tmp_path, path);
+    await this.evict();
+  }
+
+  /**
+   * Remove the least recently used entries until the cache fits its size cap.
+   */
+  async evict(): Promise<void> {
+    const names = (await readdir(this.dir)).filter((name) => name.endsWith('.json'));
+    const files = (
+      await Promise.all(
+        names.map(async (name) => {
+          const path = join(this.dir, name);
+          const stats = await stat(path).catch(() => undefined);
+          return stats && { path, size: stats.size, used_at: stats.mtimeMs };
+        }),
+      )
+    ).filter((file) => file !== undefined);
+    let size = files.reduce((total, file) => total + file.size, 0);
+    files.sort((a, b) => a.used_at - b.used_at);
+    for (const file of files) {
+      if (size <= this.max_bytes) {
+        break;
+      }
+      await rm(file.path, { force: true });
+      size -= file.size;
+    }
+  }
+
+  async clear(): Promise<void> {
+    await rm(this.dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Serves repeated requests from a ResponseCache instead of the wrapped
+ * provider. Responses served from the cache are marked with `cache_hit`, so
+ * the LLM reports them apart from the calls it paid for.
+ */
+export class CachingProvider extends LLMProvider {
+  readonly name = 'cache';
+  provider: LLMProvider;
+  cache: ResponseCache;
+
+  constructor({ provider, cache }: { provider: LLMProvider; cache: ResponseCache }) {
+    super({
+      base_url: provider.base_url,
+      api_key: provider.api_key,
+      api_version: provider.api_version,
+    });
+    this.provider = provider;
+    this.cache = cache;
+  }
+
+  async complete(request: ChatRequest, signal?: AbortSignal): Promise<ChatResponse> {
+    const key = cache_key(request);
+    const cached = await this.cache.get(key);
+    if (cached) {
+      return { ...cached, cache_hit: true };
+    }
+    const response = await this.provider.complete(request, signal);
+    await this._store(key, response);
+    return response;
+  }
+
+  async *stream(request: ChatRequest, signal?: AbortSignal): AsyncIterable<ChatChunk> {
+    const key = cache_key(request);
+    const cached = await this.cache.get(key);
+    if (cached) {
+      yield* CachingProvider.to_chunks(cached);
+      return;
+    }
+    const chunks: ChatChunk[] = [];
+    for await (const chunk of this.provider.stream(request, signal)) {
+      chunks.push(chunk);
+      yield chunk;
+    }
+    await this._store(key, CachingProvider.from_chunks(chunks));
+  }
+
+  // A cache that cannot be written must not fail the call it saw succeed
+  private async _store(key: string, response: ChatResponse): Promise<void> {
+    try {
+      await this.cache.set(key, response);
+    } catch (e) {
+      console.warn(`Could not cache LLM response: ${e}`);
+    }
+  }
+
+  /**
+   * The chunks a cached response is streamed as, tool calls sent whole.
+   */
+  static to_chunks({ message, usage, finish_reason }: ChatResponse): ChatChunk[] {
+    const chunks: ChatChunk[] = [];
+    if (message.content) {
+      chunks.push({ content: message.content });
+    }
+    for (const [index, tool_call] of (message.tool_calls ?? []).entries()) {
+      if (tool_call.type === 'function') {
+        chunks.push({ tool_calls: [{ index, ...tool_call }] });
+      }
+    }
+    chunks.push({ usage, finish_reason, cache_hit: true });
+    return chunks;
+  }
+
+  /**
+   * Assemble streamed chunks into the response a non-streamed request gets.
+   */
+  static from_chunks(chunks: ChatChunk[]): ChatResponse {
+    let content = '';
+    const tool_calls: ChatCompletionMessageFunctionToolCall[] = [];
+    let usage: ChatUsage | undefined;
+    let finish_reason: string | null | undefined;
+    for (const chunk of chunks) {
+      content += chunk.content ?? '';
+      for (const delta of chunk.tool_calls ?? []) {
+        const tool_call = (tool_calls[delta.index] ??= {
+          id: '',
+          type: 'function',
+          function: { name: '', arguments: '' },
+        });
+        tool_call.id ||= delta.id ?? '';
+        tool_call.function.name ||= delta.function?.name ?? '';
+        tool_call.function.arguments += delta.function?.arguments ?? '';
+      }
+      usage = chunk.usage ?? usage;
+      finish_reason = chunk.finish_reason ?? finish_reason;
+    }
+    return {
+      message: assistant_message(content || null, tool_calls.filter(Boolean)),
+      usage,
+      finish_reason,
+    };
+  }
+}
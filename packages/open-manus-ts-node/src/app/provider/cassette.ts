@@ -0,0 +1,188 @@
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import type { ChatChunk, ChatRequest, ChatResponse } from '@/app/provider/base';
+import { LLMProvider } from '@/app/provider/base';
+import { NoRecordedResponse, ValueError } from '@/app/utils/error';
+import { hash_json } from '@/app/utils/hash';
+
+const CASSETTE_VERSION = 1;
+
+export const CassetteMode = {
+  // Call the real provider and write every interaction to the cassette
+  RECORD: 'record',
+  // Serve the recorded responses, never touching the network
+  REPLAY: 'replay',
+} as const;
+export const CASSETTE_MODE_VALUES = Array.from(Object.values(CassetteMode));
+export type CASSETTE_MODE_TYPE = (typeof CassetteMode)[keyof typeof CassetteMode];
+
+/**
+ * One request and the response it got, streamed responses keep their chunks.
+ */
+export interface CassetteInteraction {
+  key: string;
+  stream: boolean;
+  request: ChatRequest;
+  response?: ChatResponse;
+  chunks?: ChatChunk[];
+}
+
+export interface CassetteFile {
+  version: number;
+  interactions: CassetteInteraction[];
+}
+
+/**
+ * Key a request is recorded under.
+ */
+export function request_key(request: ChatRequest, stream: boolean): string {
+  return hash_json({ stream, request });
+}
+
+/**
+ * Interactions recorded to a cassette file and the write of the file in
+ * progress.
+ */
+interface Recording {
+  interactions: CassetteInteraction[];
+  write: Promise<void>;
+}
+
+// Recordings by cassette path, shared by every recorder of the process so
+// that recorders of one file do not overwrite each other
+const recordings: Map<string, Recording> = new Map();
+
+/**
+ * Records every request sent to the wrapped provider and its response to a
+ * cassette file. The file is rewritten after each interaction with every
+ * interaction recorded to it by this process, starting from an empty cassette.
+ */
+export class RecordingProvider extends LLMProvider {
+  readonly name = 'record';
+  provider: LLMProvider;
+  path: string;
+  private _recording: Recording;
+
+  constructor({ provider, path }: { provider: LLMProvider; path: string }) {
+    super({
+      base_url: provider.base_url,
+      api_key: provider.api_key,
+      api_version: provider.api_version,
+    });
+    this.provider = provider;
+    this.path = resolve(path);
+    let recording = recordings.get(this.path);
+    if (!recording) {
+      recording = { interactions: [], write: Promise.resolve() };
+      recordings.set(this.path, recording);
+    }
+    this._recording = recording;
+  }
+
+  get interactions(): CassetteInteraction[] {
+    return this._recording.interactions;
+  }
+
+  async complete(request: ChatRequest, signal?: AbortSignal): Promise<ChatResponse> {
+    const response = await this.provider.complete(request, signal);
+    await this._record({ key: request_key(request, false), stream: false, request, response });
+    return response;
+  }
+
+  async *stream(request: ChatRequest, signal?: AbortSignal): AsyncIterable<ChatChunk> {
+    const chunks: ChatChunk[] = [];
+    for await (const chunk of this.provider.stream(request, signal)) {
+      chunks.push(chunk);
+      yield chunk;
+    }
+    await this._record({ key: request_key(request, true), stream: true, request, chunks });
+  }
+
+  private _record(interaction: CassetteInteraction): Promise<void> {
+    this.interactions.push(interaction);
+    const cassette: CassetteFile = {
+      version: CASSETTE_VERSION,
+      interactions: [...this.interactions],
+    };
+    // Writes are serialized and atomic, the last one holds every interaction.
+    // A failed write is reported to its caller only and does not stop the next
+    this._recording.write = this._recording.write
+      .catch(() => undefined)
+      .then(async () => {
+        await mkdir(dirname(this.path), { recursive: true });
+        const tmp_path = `${this.path}.${process.pid}.${randomUUID()}.tmp`;
+        await writeFile(tmp_path, JSON.stringify(cassette, null, 2), 'utf-8');
+        await rename(tmp_path, this.path);
+      });
+    return this._recording.write;
+  }
+}
+
+/**
+ * Serves the responses of a cassette file. A request that was recorded
+ * several times gets its responses in recording order, then the last one
+ * again. Any other request fails with NoRecordedResponse.
+ */
+export class ReplayProvider extends LLMProvider {
+  readonly name = 'replay';
+  path: string;
+  private _interactions?: Map<string, CassetteInteraction[]>;
+  // Number of times each key was served
+  private _served: Map<string, number> = new Map();
+
+  constructor({ path }: { path: string }) {
+    super({ base_url: '', api_key: '', api_version: '' });
+    this.path = resolve(path);
+  }
+
+  async complete(request: ChatRequest): Promise<ChatResponse> {
+    const interaction = await this._next(request, false);
+    return interaction.response!;
+  }
+
+  async *stream(request: ChatRequest): AsyncIterable<ChatChunk> {
+    const interaction = await this._next(request, true);
+    yield* interaction.chunks ?? [];
+  }
+
+  private async _next(request: ChatRequest, stream: boolean): Promise<CassetteInteraction> {
+    const interactions = await this._load();
+    const key = request_key(request, stream);
+    const recorded = interactions.get(key);
+    if (!recorded?.length) {
+      throw new NoRecordedResponse(
+        `No recorded ${stream ? 'streamed ' : ''}response in ${this.path} for request ${key.slice(0, 12)} ` +
+          `(model ${request.model}, ${request.messages.length} messages)`,
+      );
+    }
+    const served = this._served.get(key) ?? 0;
+    this._served.set(key, served + 1);
+    return recorded[Math.min(served, recorded.length - 1)];
+  }
+
+  private async _load(): Promise<Map<string, CassetteInteraction[]>> {
+    if (this._interactions) {
+      return this._interactions;
+    }
+    let cassette: CassetteFile;
+    try {
+      cassette = JSON.parse(await readFile(this.path, 'utf-8'));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new NoRecordedResponse(`Cassette not found: ${this.path}`);
+      }
+      throw e;
+    }
+    if (cassette.version !== CASSETTE_VERSION) {
+      throw new ValueError(`Unsupported cassette version: ${cassette.version}`);
+    }
+    this._interactions = new Map();
+    for (const interaction of cassette.interactions) {
+      const recorded = this._interactions.get(interaction.key) ?? [];
+      recorded.push(interaction);
+      this._interactions.set(interaction.key, recorded);
+    }
+    return this._interactions;
+  }
+}
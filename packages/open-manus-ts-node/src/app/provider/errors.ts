@@ -0,0 +1,131 @@
+import { APIConnectionError, APIConnectionTimeoutError, APIError } from 'openai';
+import { ProviderError } from '@/app/utils/error';
+
+export const ErrorKind = {
+  // 429, the request can be sent again once the limit resets
+  RATE_LIMIT: 'rate_limit',
+  // 5xx, the provider failed or is overloaded
+  SERVER: 'server',
+  TIMEOUT: 'timeout',
+  // The API could not be reached or dropped the connection
+  CONNECTION: 'connection',
+  // 401 or 403, sending the request again cannot help
+  AUTH: 'auth',
+  // Other 4xx and errors of our own code, the request itself is wrong
+  BAD_REQUEST: 'bad_request',
+} as const;
+
+export const ERROR_KIND_VALUES = Array.from(Object.values(ErrorKind));
+export type ERROR_KIND_TYPE = (typeof ErrorKind)[keyof typeof ErrorKind];
+
+// Kinds of errors a retry may fix, any other is permanent
+const TRANSIENT_KINDS: ERROR_KIND_TYPE[] = [
+  ErrorKind.RATE_LIMIT,
+  ErrorKind.SERVER,
+  ErrorKind.TIMEOUT,
+  ErrorKind.CONNECTION,
+];
+
+// Node and undici codes of network failures
+const TIMEOUT_CODES = ['ETIMEDOUT', 'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_HEADERS_TIMEOUT'];
+const CONNECTION_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE'];
+
+/**
+ * HTTP status of a failed API call, from our providers or the OpenAI SDK.
+ */
+export function error_status(error: unknown): number | undefined {
+  if (error instanceof ProviderError || error instanceof APIError) {
+    return error.status;
+  }
+  return undefined;
+}
+
+function error_code(error: unknown): string | undefined {
+  const cause = error instanceof Error ? (error.cause as any) : undefined;
+  return (error as any)?.code ?? cause?.code;
+}
+
+/**
+ * What kind of failure an error from an LLM API is. Errors that are neither
+ * HTTP nor network failures, such as those thrown by our own checks, are bad
+ * requests.
+ */
+export function classify_error(error: unknown): ERROR_KIND_TYPE {
+  const status = error_status(error);
+  if (status !== undefined) {
+    if (status === 429) {
+      return ErrorKind.RATE_LIMIT;
+    }
+    if (status === 408) {
+      return ErrorKind.TIMEOUT;
+    }
+    if (status === 401 || status === 403) {
+      return ErrorKind.AUTH;
+    }
+    if (status >= 500) {
+      return ErrorKind.SERVER;
+    }
+    if (status >= 400) {
+      return ErrorKind.BAD_REQUEST;
+    }
+  }
+  const code = error_code(error);
+  if (
+    error instanceof APIConnectionTimeoutError ||
+    (error instanceof Error && error.name === 'TimeoutError') ||
+    (code && TIMEOUT_CODES.includes(code))
+  ) {
+    return ErrorKind.TIMEOUT;
+  }
+  if (
+    error instanceof APIConnectionError ||
+    (code && CONNECTION_CODES.includes(code)) ||
+    // fetch rejects with a bare TypeError when the network fails
+    (error instanceof TypeError && error.message === 'fetch failed')
+  ) {
+    return ErrorKind.CONNECTION;
+  }
+  // Errors reported in a stream, without an HTTP status
+  if (error instanceof ProviderError) {
+    if (/overloaded/i.test(error.message)) {
+      return ErrorKind.SERVER;
+    }
+    if (/rate.?limit/i.test(error.message)) {
+      return ErrorKind.RATE_LIMIT;
+    }
+  }
+  return ErrorKind.BAD_REQUEST;
+}
+
+/**
+ * Whether sending the request again may succeed.
+ */
+export function is_transient(error: unknown): boolean {
+  return TRANSIENT_KINDS.includes(classify_error(error));
+}
+
+/**
+ * Wait in ms the API asked for with `retry-after-ms` or `Retry-After`, in
+ * seconds or as an HTTP date.
+ */
+export function retry_after_ms(error: unknown): number | undefined {
+  const headers =
+    error instanceof ProviderError || error instanceof APIError ? error.headers : undefined;
+  if (!headers) {
+    return undefined;
+  }
+  const ms = Number.parseFloat(headers.get('retry-after-ms') ?? '');
+  if (Number.isFinite(ms) && ms >= 0) {
+    return ms;
+  }
+  const value = headers.get('retry-after');
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
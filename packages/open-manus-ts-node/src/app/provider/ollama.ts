@@ -0,0 +1,167 @@
+import type { ChatCompletionMessageFunctionToolCall } from 'openai/resources';
+import type { ChatChunk, ChatRequest, ChatResponse, ProviderSettings } from '@/app/provider/base';
+import {
+  LLMProvider,
+  assistant_message,
+  parse_arguments,
+  parse_data_url,
+  read_lines,
+  text_of,
+} from '@/app/provider/base';
+import { ToolChoice } from '@/app/schema';
+import { ProviderError } from '@/app/utils/error';
+
+const DEFAULT_BASE_URL = 'http://localhost:11434';
+
+interface OllamaMessage {
+  role: string;
+  content: string;
+  images?: string[];
+  tool_calls?: Array<{ function: { name: string; arguments: Record<string, any> } }>;
+  tool_name?: string;
+}
+
+/**
+ * Provider for the native chat API of an Ollama server.
+ */
+export class OllamaProvider extends LLMProvider {
+  readonly name = 'ollama';
+
+  constructor({ base_url, api_key, api_version }: Omit<ProviderSettings, 'model'>) {
+    super({ base_url: base_url || DEFAULT_BASE_URL, api_key, api_version });
+  }
+
+  async complete(request: ChatRequest, signal?: AbortSignal): Promise<ChatResponse> {
+    const response = await this._send(request, false, signal);
+    const body = (await response.json()) as Record<string, any>;
+    return {
+      message: assistant_message(
+        body.message?.content || null,
+        OllamaProvider.convert_tool_calls(body.message?.tool_calls),
+      ),
+      usage: {
+        prompt_tokens: body.prompt_eval_count ?? 0,
+        completion_tokens: body.eval_count ?? 0,
+      },
+      finish_reason: body.message?.tool_calls?.length ? 'tool_calls' : body.done_reason,
+    };
+  }
+
+  async *stream(request: ChatRequest, signal?: AbortSignal): AsyncIterable<ChatChunk> {
+    const response = await this._send(request, true, signal);
+    let tool_index = 0;
+    for await (const line of read_lines(response)) {
+      if (!line.trim()) {
+        continue;
+      }
+      const chunk = JSON.parse(line);
+      if (chunk.error) {
+        throw new ProviderError(`ollama API error: ${chunk.error}`);
+      }
+      // Ollama sends each tool call whole, never split across chunks
+      const tool_calls = OllamaProvider.convert_tool_calls(
+        chunk.message?.tool_calls,
+        tool_index,
+      ).map((tool_call, i) => ({ index: tool_index + i, ...tool_call }));
+      tool_index += tool_calls.length;
+      yield {
+        content: chunk.message?.content || undefined,
+        tool_calls: tool_calls.length ? tool_calls : undefined,
+        usage: chunk.done
+          ? {
+              prompt_tokens: chunk.prompt_eval_count ?? 0,
+              completion_tokens: chunk.eval_count ?? 0,
+            }
+          : undefined,
+        finish_reason: chunk.done ? (tool_index > 0 ? 'tool_calls' : chunk.done_reason) : undefined,
+      };
+    }
+  }
+
+  private _send(request: ChatRequest, stream: boolean, signal?: AbortSignal): Promise<Response> {
+    const body: Record<string, any> = {
+      model: request.model,
+      messages: OllamaProvider.convert_messages(request.messages),
+      stream,
+      options: {
+        num_predict: request.max_tokens ?? request.max_completion_tokens ?? undefined,
+        temperature: request.temperature ?? undefined,
+      },
+    };
+    if (request.response_format?.type === 'json_object') {
+      body.format = 'json';
+    }
+    // Ollama cannot force a tool call, but it must not see tools it may not use
+    if (request.tools?.length && request.tool_choice !== ToolChoice.NONE) {
+      body.tools = request.tools.filter((tool) => tool.type === 'function');
+    }
+    const headers: Record<string, string> = {};
+    if (this.api_key) {
+      headers.authorization = `Bearer ${this.api_key}`;
+    }
+    return this.post(
+      `${this.base_url.replace(/\/+$/, '').replace(/\/(?:api|v1)$/, '')}/api/chat`,
+      body,
+      headers,
+      signal,
+    );
+  }
+
+  /**
+   * Convert OpenAI messages: images go to the `images` field as raw base64,
+   * tool call arguments are objects, and tool results name their tool.
+   */
+  static convert_messages(openai_messages: ChatRequest['messages']): OllamaMessage[] {
+    const tool_names = new Map<string, string>();
+    return (openai_messages as Record<string, any>[]).map((message) => {
+      const converted: OllamaMessage = {
+        role: message.role === 'developer' ? 'system' : message.role,
+        content: text_of(message.content),
+      };
+      if (Array.isArray(message.content)) {
+        const images = message.content
+          .filter((part: any) => part?.type === 'image_url')
+          .map((part: any) => {
+            const url = typeof part.image_url === 'string' ? part.image_url : part.image_url?.url;
+            return parse_data_url(url ?? '')?.data ?? url;
+          })
+          .filter(Boolean);
+        if (images.length) {
+          converted.images = images;
+        }
+      }
+      if (message.tool_calls?.length) {
+        converted.tool_calls = message.tool_calls.map((tool_call: any) => {
+          tool_names.set(tool_call.id, tool_call.function.name);
+          return {
+            function: {
+              name: tool_call.function.name,
+              arguments: parse_arguments(tool_call.function.arguments),
+            },
+          };
+        });
+      }
+      if (message.role === 'tool') {
+        converted.tool_name = message.name ?? tool_names.get(message.tool_call_id);
+      }
+      return converted;
+    });
+  }
+
+  /**
+   * Ollama tool calls have no id, one is generated for the transcript.
+   */
+  static convert_tool_calls(
+    tool_calls: OllamaMessage['tool_calls'],
+    offset = 0,
+  ): ChatCompletionMessageFunctionToolCall[] {
+    return (tool_calls ?? []).map((tool_call, i) => ({
+      id: `call_${Date.now().toString(36)}_${offset + i}`,
+      type: 'function',
+      function: {
+        name: tool_call.function.name,
+        arguments: JSON.stringify(tool_call.function.arguments ?? {}),
+      },
+    }));
+  }
+}
@@ -0,0 +1,84 @@
+import { AzureOpenAI, OpenAI } from 'openai';
+import type { ChatChunk, ChatRequest, ChatResponse, ProviderSettings } from '@/app/provider/base';
+import { LLMProvider } from '@/app/provider/base';
+import { ValueError } from '@/app/utils/error';
+
+/**
+ * Provider for the OpenAI API and the many servers compatible with it.
+ * Requests are already in its format, nothing needs converting.
+ */
+export class OpenAIProvider extends LLMProvider {
+  readonly name: string = 'openai';
+  client: OpenAI;
+
+  constructor(settings: Omit<ProviderSettings, 'model'>) {
+    super(settings);
+    this.client = this.create_client();
+  }
+
+  protected create_client(): OpenAI {
+    // Failed calls are retried by the LLM, following its retry policy
+    return new OpenAI({ apiKey: this.api_key, baseURL: this.base_url, maxRetries: 0 });
+  }
+
+  async complete(
+    { stream_options: _stream_options, ...request }: ChatRequest,
+    signal?: AbortSignal,
+  ): Promise<ChatResponse> {
+    const response = await this.client.chat.completions.create(
+      { ...request, stream: false },
+      { signal },
+    );
+    const choice = response?.choices?.[0];
+    if (!choice?.message) {
+      throw new ValueError('Empty or invalid response from LLM');
+    }
+    return {
+      message: choice.message,
+      usage: response.usage && {
+        prompt_tokens: response.usage.prompt_tokens,
+        completion_tokens: response.usage.completion_tokens,
+        cached_tokens: response.usage.prompt_tokens_details?.cached_tokens,
+      },
+      finish_reason: choice.finish_reason,
+    };
+  }
+
+  async *stream(request: ChatRequest, signal?: AbortSignal): AsyncIterable<ChatChunk> {
+    const response = await this.client.chat.completions.create(
+      { ...request, stream: true },
+      { signal },
+    );
+    for await (const chunk of response) {
+      const choice = chunk.choices?.[0];
+      yield {
+        content: choice?.delta?.content ?? undefined,
+        tool_calls: choice?.delta?.tool_calls,
+        usage: chunk.usage
+          ? {
+              prompt_tokens: chunk.usage.prompt_tokens,
+              completion_tokens: chunk.usage.completion_tokens,
+              cached_tokens: chunk.usage.prompt_tokens_details?.cached_tokens,
+            }
+          : undefined,
+        finish_reason: choice?.finish_reason,
+      };
+    }
+  }
+}
+
+/**
+ * Provider for Azure OpenAI deployments, same wire format as OpenAI.
+ */
+export class AzureProvider extends OpenAIProvider {
+  readonly name: string = 'azure';
+
+  protected create_client(): OpenAI {
+    return new AzureOpenAI({
+      apiKey: this.api_key,
+      apiVersion: this.api_version,
+      baseURL: this.base_url,
+      maxRetries: 0,
+    });
+  }
+}
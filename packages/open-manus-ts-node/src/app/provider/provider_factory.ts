@@ -0,0 +1,99 @@
+import { AnthropicProvider } from '@/app/provider/anthropic';
+import type { CacheSettings } from '@/app/config';
+import type { LLMProvider, ProviderSettings } from '@/app/provider/base';
+import { CachingProvider, ResponseCache } from '@/app/provider/cache';
+import type { CASSETTE_MODE_TYPE } from '@/app/provider/cassette';
+import {
+  CASSETTE_MODE_VALUES,
+  CassetteMode,
+  RecordingProvider,
+  ReplayProvider,
+} from '@/app/provider/cassette';
+import { OllamaProvider } from '@/app/provider/ollama';
+import { AzureProvider, OpenAIProvider } from '@/app/provider/openai';
+import type { ScriptStep } from '@/app/provider/scripted';
+import { ScriptedProvider } from '@/app/provider/scripted';
+import { ValueError } from '@/app/utils/error';
+
+export const ProviderType = {
+  OPENAI: 'openai',
+  AZURE: 'azure',
+  ANTHROPIC: 'anthropic',
+  OLLAMA: 'ollama',
+  // Canned responses from `LLMSettings.script`, for tests
+  SCRIPTED: 'scripted',
+} as const;
+export const PROVIDER_TYPE_VALUES = Array.from(Object.values(ProviderType));
+export type PROVIDER_TYPE_TYPE = (typeof ProviderType)[keyof typeof ProviderType];
+
+type ProviderFactoryParams = Omit<ProviderSettings, 'model'> & {
+  api_type?: string;
+  cassette?: string;
+  cassette_mode?: CASSETTE_MODE_TYPE;
+  script?: ScriptStep[];
+  cache?: CacheSettings;
+};
+
+/**
+ * Factory for the provider matching `LLMSettings.api_type`. Without an
+ * api_type the endpoint is assumed to be OpenAI compatible.
+ *
+ * With a cassette, the provider records to it or, in replay mode, is
+ * replaced by the recordings. With the cache enabled, repeated requests are
+ * answered from it.
+ */
+export class ProviderFactory {
+  static create_provider({ cache, ...settings }: ProviderFactoryParams): LLMProvider {
+    const provider = ProviderFactory._create_or_replay(settings);
+    if (!cache?.enabled) {
+      return provider;
+    }
+    return new CachingProvider({ provider, cache: ResponseCache.from_settings(cache) });
+  }
+
+  private static _create_or_replay({
+    cassette,
+    cassette_mode = CassetteMode.REPLAY,
+    ...settings
+  }: Omit<ProviderFactoryParams, 'cache'>): LLMProvider {
+    if (!cassette) {
+      return ProviderFactory._create(settings);
+    }
+    switch (cassette_mode) {
+      case CassetteMode.REPLAY:
+        return new ReplayProvider({ path: cassette });
+      case CassetteMode.RECORD:
+        return new RecordingProvider({
+          provider: ProviderFactory._create(settings),
+          path: cassette,
+        });
+      default:
+        throw new ValueError(
+          `Unknown cassette_mode: ${cassette_mode}. Use one of ${CASSETTE_MODE_VALUES.join(', ')}`,
+        );
+    }
+  }
+
+  private static _create({
+    api_type,
+    script,
+    ...settings
+  }: Omit<ProviderFactoryParams, 'cassette' | 'cassette_mode' | 'cache'>): LLMProvider {
+    switch ((api_type || ProviderType.OPENAI).toLowerCase()) {
+      case ProviderType.OPENAI:
+        return new OpenAIProvider(settings);
+      case ProviderType.AZURE:
+        return new AzureProvider(settings);
+      case ProviderType.ANTHROPIC:
+        return new AnthropicProvider(settings);
+      case ProviderType.OLLAMA:
+        return new OllamaProvider(settings);
+      case ProviderType.SCRIPTED:
+        return new ScriptedProvider({ script });
+      default:
+        throw new ValueError(
+          `Unknown api_type: ${api_type}. Use one of ${PROVIDER_TYPE_VALUES.join(', ')}`,
+        );
+    }
+  }
+}
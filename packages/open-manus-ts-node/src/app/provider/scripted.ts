@@ -0,0 +1,120 @@
+import type { ChatCompletionMessageFunctionToolCall } from 'openai/resources';
+import type { ChatChunk, ChatRequest, ChatResponse, ChatUsage } from '@/app/provider/base';
+import { LLMProvider, assistant_message } from '@/app/provider/base';
+import { NoRecordedResponse } from '@/app/utils/error';
+
+// Size of the pieces streamed content and tool call arguments are cut into
+const STREAM_CHUNK_SIZE = 8;
+
+/**
+ * A canned answer of the scripted provider.
+ */
+export interface ScriptedResponse {
+  content?: string;
+  tool_calls?: Array<{
+    id?: string;
+    name: string;
+    // Serialized to JSON unless already a string
+    arguments?: Record<string, any> | string;
+  }>;
+  // Left out, the LLM counts the tokens itself
+  usage?: ChatUsage;
+}
+
+export type ScriptStep = ScriptedResponse | ((request: ChatRequest) => ScriptedResponse);
+
+/**
+ * Provider answering with a fixed script instead of a model, for tests.
+ * Each request consumes the next step of the script, a step being either a
+ * response or a function building one from the request. Requests are kept
+ * for assertions.
+ */
+export class ScriptedProvider extends LLMProvider {
+  readonly name = 'scripted';
+  script: ScriptStep[];
+  requests: ChatRequest[] = [];
+
+  constructor({ script = [] }: { script?: ScriptStep[] } = {}) {
+    super({ base_url: '', api_key: '', api_version: '' });
+    this.script = script;
+  }
+
+  async complete(request: ChatRequest): Promise<ChatResponse> {
+    const response = this._next(request);
+    const tool_calls = ScriptedProvider.convert_tool_calls(response, this.requests.length);
+    return {
+      message: assistant_message(response.content ?? null, tool_calls),
+      usage: response.usage,
+      finish_reason: tool_calls.length ? 'tool_calls' : 'stop',
+    };
+  }
+
+  async *stream(request: ChatRequest): AsyncIterable<ChatChunk> {
+    const response = this._next(request);
+    for (const piece of split(response.content ?? '')) {
+      yield { content: piece };
+    }
+    const tool_calls = ScriptedProvider.convert_tool_calls(response, this.requests.length);
+    for (const [index, tool_call] of tool_calls.entries()) {
+      yield {
+        tool_calls: [
+          {
+            index,
+            id: tool_call.id,
+            type: 'function',
+            function: { name: tool_call.function.name },
+          },
+        ],
+      };
+      for (const piece of split(tool_call.function.arguments)) {
+        yield { tool_calls: [{ index, function: { arguments: piece } }] };
+      }
+    }
+    yield { usage: response.usage, finish_reason: tool_calls.length ? 'tool_calls' : 'stop' };
+  }
+
+  /**
+   * Append steps to the script.
+   */
+  push(...steps: ScriptStep[]): this {
+    this.script.push(...steps);
+    return this;
+  }
+
+  private _next(request: ChatRequest): ScriptedResponse {
+    const step = this.script[this.requests.length];
+    if (!step) {
+      throw new NoRecordedResponse(
+        `Scripted provider has no response for request #${this.requests.length + 1}, ` +
+          `the script has ${this.script.length} steps`,
+      );
+    }
+    this.requests.push(request);
+    return typeof step === 'function' ? step(request) : step;
+  }
+
+  static convert_tool_calls(
+    response: ScriptedResponse,
+    request_number: number,
+  ): ChatCompletionMessageFunctionToolCall[] {
+    return (response.tool_calls ?? []).map((tool_call, i) => ({
+      id: tool_call.id ?? `call_${request_number}_${i}`,
+      type: 'function',
+      function: {
+        name: tool_call.name,
+        arguments:
+          typeof tool_call.arguments === 'string'
+            ? tool_call.arguments
+            : JSON.stringify(tool_call.arguments ?? {}),
+      },
+    }));
+  }
+}
+
+function split(text: string): string[] {
+  const pieces: string[] = [];
+  for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+    pieces.push(text.slice(i, i + STREAM_CHUNK_SIZE));
+  }
+  return pieces;
+}
@@ -0,0 +1,199 @@
+import type { RateLimitSettings } from '@/app/config';
+import { to_abort_error } from '@/app/utils/abort';
+
+// Span requests and tokens are counted over
+const WINDOW_MS = 60_000;
+
+interface Grant {
+  // ms since the epoch
+  at: number;
+  tokens: number;
+}
+
+interface Waiter {
+  tokens: number;
+  resolve: (release: RateLimitRelease) => void;
+  reject: (error: unknown) => void;
+  signal?: AbortSignal;
+  on_abort?: () => void;
+}
+
+/**
+ * Ends a request holding a slot of the limiter, correcting its tokens to the
+ * ones the provider reported when known.
+ */
+export type RateLimitRelease = (used_tokens?: number) => void;
+
+/**
+ * Requests-per-minute, tokens-per-minute and concurrency limits of one
+ * endpoint and model, shared by every LLM calling them in the process.
+ *
+ * Requests over a limit wait in a FIFO queue, so a large request is not
+ * starved by the small ones arriving after it.
+ */
+export class RateLimiter {
+  private static _instances: Map<string, RateLimiter> = new Map();
+
+  key: string;
+  requests_per_minute?: number;
+  tokens_per_minute?: number;
+  max_concurrent?: number;
+  private _grants: Grant[] = [];
+  private _active = 0;
+  private _queue: Waiter[] = [];
+  private _timer?: NodeJS.Timeout;
+
+  constructor({
+    key,
+    requests_per_minute,
+    tokens_per_minute,
+    max_concurrent,
+  }: { key: string } & RateLimitSettings) {
+    this.key = key;
+    this.requests_per_minute = requests_per_minute;
+    this.tokens_per_minute = tokens_per_minute;
+    this.max_concurrent = max_concurrent;
+  }
+
+  /**
+   * The limiter shared by the callers of an endpoint and model, none when no
+   * limit is set. The limits of the first caller apply.
+   */
+  static getInstance({
+    base_url,
+    model,
+    settings,
+  }: {
+    base_url: string;
+    model: string;
+    settings?: RateLimitSettings;
+  }): RateLimiter | undefined {
+    const { requests_per_minute, tokens_per_minute, max_concurrent } = settings ?? {};
+    if (!requests_per_minute && !tokens_per_minute && !max_concurrent) {
+      return undefined;
+    }
+    const key = `${base_url}#${model}`;
+    if (!RateLimiter._instances.has(key)) {
+      RateLimiter._instances.set(key, new RateLimiter({ key, ...settings }));
+    }
+    return RateLimiter._instances.get(key)!;
+  }
+
+  get active(): number {
+    return this._active;
+  }
+
+  get waiting(): number {
+    return this._queue.length;
+  }
+
+  /**
+   * Wait for a slot for a request of `tokens` estimated tokens. The returned
+   * function must be called once the request is done.
+   * @param on_wait Called when the request has to wait, with the number of waiting requests
+   * @throws AbortError when the signal is aborted while waiting
+   */
+  acquire(
+    tokens: number,
+    { signal, on_wait }: { signal?: AbortSignal; on_wait?: (waiting: number) => void } = {},
+  ): Promise<RateLimitRelease> {
+    if (signal?.aborted) {
+      return Promise.reject(to_abort_error(signal.reason));
+    }
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { tokens, resolve, reject, signal };
+      if (signal) {
+        waiter.on_abort = () => {
+          this._queue = this._queue.filter((queued) => queued !== waiter);
+          reject(to_abort_error(signal.reason));
+          // Those queued behind may fit now
+          this._drain();
+        };
+        signal.addEventListener('abort', waiter.on_abort, { once: true });
+      }
+      this._queue.push(waiter);
+      this._drain();
+      if (this._queue.includes(waiter)) {
+        on_wait?.(this._queue.length);
+      }
+    });
+  }
+
+  /**
+   * Grant the waiters at the head of the queue while they fit, and schedule
+   * the next attempt when the window frees up.
+   */
+  private _drain(): void {
+    clearTimeout(this._timer);
+    this._timer = undefined;
+    while (this._queue.length) {
+      const now = Date.now();
+      this._grants = this._grants.filter((grant) => now - grant.at < WINDOW_MS);
+      const waiter = this._queue[0];
+      const wait = this._wait_for(waiter.tokens, now);
+      if (wait == null) {
+        // Woken up by a release
+        return;
+      }
+      if (wait > 0) {
+        this._timer = setTimeout(() => this._drain(), wait);
+        return;
+      }
+      this._queue.shift();
+      if (waiter.on_abort) {
+        waiter.signal?.removeEventListener('abort', waiter.on_abort);
+      }
+      waiter.resolve(this._grant(waiter.tokens, now));
+    }
+  }
+
+  /**
+   * ms until a request of `tokens` fits in the limits, 0 if it does now and
+   * null if it waits for a request in flight to end.
+   */
+  private _wait_for(tokens: number, now: number): number | null {
+    if (this.max_concurrent && this._active >= this.max_concurrent) {
+      return null;
+    }
+    let wait = 0;
+    if (this.requests_per_minute && this._grants.length >= this.requests_per_minute) {
+      const oldest = this._grants[this._grants.length - this.requests_per_minute];
+      wait = Math.max(wait, oldest.at + WINDOW_MS - now);
+    }
+    if (this.tokens_per_minute) {
+      // A request larger than the limit goes alone in its window rather than never
+      let excess = this._tokens_in_window() + Math.min(tokens, this.tokens_per_minute);
+      excess -= this.tokens_per_minute;
+      for (const grant of this._grants) {
+        if (excess <= 0) {
+          break;
+        }
+        wait = Math.max(wait, grant.at + WINDOW_MS - now);
+        excess -= grant.tokens;
+      }
+    }
+    return wait;
+  }
+
+  private _tokens_in_window(): number {
+    return this._grants.reduce((total, grant) => total + grant.tokens, 0);
+  }
+
+  private _grant(tokens: number, now: number): RateLimitRelease {
+    const grant: Grant = { at: now, tokens };
+    this._grants.push(grant);
+    this._active++;
+    let released = false;
+    return (used_tokens?: number) => {
+      if (released) {
+        return;
+      }
+      released = true;
+      if (used_tokens !== undefined) {
+        grant.tokens = used_tokens;
+      }
+      this._active--;
+      this._drain();
+    };
+  }
+}
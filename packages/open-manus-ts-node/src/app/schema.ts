@@ -99,6 +99,32 @@ export class Message {
     if (this.base64_image) message.base64_image = this.base64_image;
     return message;
   }
+  /**
+   * Rebuild a message from its `to_dict` form, e.g. after a JSON round trip.
+   */
+  static from_dict(data: Record<string, any>): Message {
+    const tool_calls = Array.isArray(data.tool_calls)
+      ? data.tool_calls.map(
+          (tc: Record<string, any>) =>
+            new ToolCall({
+              id: tc.id,
+              type: tc.type,
+              fn: new Function({
+                name: tc.fn?.name ?? tc.function?.name,
+                args: tc.fn?.args ?? tc.function?.arguments ?? '',
+              }),
+            }),
+        )
+      : undefined;
+    return new Message({
+      role: data.role,
+      content: data.content,
+      name: data.name,
+      tool_calls,
+      tool_call_id: data.tool_call_id,
+      base64_image: data.base64_image,
+    });
+  }
   static user_message(content: string): Message {
     return new Message({ role: Role.USER, content });
   }
@@ -126,33 +152,133 @@ export class Message {
     });
   }
   static from_tool_calls(params: Omit<PropertiesOnly<Message>, 'role'>): Message {
-    return new Message({ role: Role.TOOL, ...params });
+    return new Message({ role: Role.ASSISTANT, ...params });
   }
 }
 
 export class Memory {
-  messages: Message[] = [];
-  max_messages: number = 100;
+  messages: Message[];
+  max_messages: number;
+  // Strategy used by `compact`, memory is only trimmed by count without one
+  compaction?: CompactionStrategy;
+
+  constructor({
+    messages = [],
+    max_messages = 100,
+    compaction,
+  }: Partial<PropertiesOnly<Memory>> = {}) {
+    this.messages = messages;
+    this.max_messages = max_messages;
+    this.compaction = compaction;
+  }
 
   public add_message(message: Message): void {
     this.messages.push(message);
-    if (this.messages.length > this.max_messages) {
-      this.messages = this.messages.slice(-this.max_messages);
-    }
+    this._trim();
   }
   public add_messages(messages: Message[]): void {
     this.messages.push(...messages);
-    if (this.messages.length > this.max_messages) {
-      this.messages = this.messages.slice(-this.max_messages);
-    }
+    this._trim();
   }
   public clear(): void {
     this.messages = [];
   }
+  /**
+   * The latest messages, at most `n` of them. The window never starts inside a
+   * tool call unit, so it may hold fewer than `n` messages.
+   */
   public get_recent_messages(n: number): Message[] {
-    return this.messages.slice(-n);
+    let start = this.messages.length;
+    for (const unit of Memory.group_units(this.messages).reverse()) {
+      if (this.messages.length - unit[0] > n) break;
+      start = unit[0];
+    }
+    return this.messages.slice(start);
   }
   public to_dict_list() {
     return this.messages.map((m) => m.to_dict());
   }
+
+  /**
+   * Run the compaction strategy if it decides the memory has grown too large.
+   * @returns Whether the messages were compacted.
+   */
+  public async compact(signal?: AbortSignal): Promise<boolean> {
+    if (!this.compaction || !this.compaction.should_compact(this.messages)) {
+      return false;
+    }
+    this.messages = await this.compaction.compact(this.messages, signal);
+    return true;
+  }
+
+  /**
+   * Indexes of the messages that must survive trimming and compaction: every
+   * system message and the first user message, i.e. the original request.
+   */
+  static pinned_indexes(messages: Message[]): Set<number> {
+    const pinned = new Set<number>();
+    const first_user = messages.findIndex((m) => m.role === Role.USER);
+    if (first_user >= 0) pinned.add(first_user);
+    messages.forEach((m, i) => {
+      if (m.role === Role.SYSTEM) pinned.add(i);
+    });
+    return pinned;
+  }
+
+  /**
+   * Group messages into units that are kept or dropped as a whole: an assistant
+   * message carrying tool calls together with the tool results answering it.
+   * Every other message is a unit on its own.
+   * @returns The indexes of the messages of each unit, in order.
+   */
+  static group_units(messages: Message[]): number[][] {
+    const units: number[][] = [];
+    for (let i = 0; i < messages.length; i++) {
+      const unit = [i];
+      const message = messages[i];
+      if (message.role === Role.ASSISTANT && message.tool_calls?.length) {
+        const ids = new Set(message.tool_calls.map((tc) => tc.id));
+        while (
+          i + 1 < messages.length &&
+          messages[i + 1].role === Role.TOOL &&
+          ids.has(messages[i + 1].tool_call_id!)
+        ) {
+          unit.push(++i);
+        }
+      }
+      units.push(unit);
+    }
+    return units;
+  }
+
+  /**
+   * Drop the oldest units beyond `max_messages`, keeping pinned ones.
+   */
+  private _trim(): void {
+    if (this.messages.length <= this.max_messages) {
+      return;
+    }
+    const pinned = Memory.pinned_indexes(this.messages);
+    const units = Memory.group_units(this.messages);
+    const keep = new Set<number>();
+    for (const unit of units) {
+      if (unit.some((i) => pinned.has(i))) unit.forEach((i) => keep.add(i));
+    }
+    for (const unit of units.reverse()) {
+      if (unit.some((i) => keep.has(i))) continue;
+      if (keep.size + unit.length > this.max_messages) break;
+      unit.forEach((i) => keep.add(i));
+    }
+    this.messages = this.messages.filter((_, i) => keep.has(i));
+  }
+}
+
+/**
+ * Decides when a memory is too large and how to shrink it.
+ */
+export interface CompactionStrategy {
+  // Reported by the memory_compacted event
+  readonly name?: string;
+  should_compact(messages: Message[]): boolean;
+  compact(messages: Message[], signal?: AbortSignal): Promise<Message[]>;
 }
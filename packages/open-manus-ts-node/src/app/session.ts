@@ -0,0 +1,346 @@
+import { mkdir, readFile, readdir, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { BaseAgent } from '@/app/agent/base';
+import { Manus } from '@/app/agent/manus';
+import { MCPAgent } from '@/app/agent/mcp';
+import { LLMSettings, config } from '@/app/config';
+import { LLM } from '@/app/llm';
+import type { AGENT_STATE_TYPE, TOOL_CHOICE_TYPE } from '@/app/schema';
+import { AgentState, Function, Message, ToolCall } from '@/app/schema';
+import type { BUDGET_SCOPE_TYPE } from '@/app/token_budget';
+import { TokenBudget } from '@/app/token_budget';
+import { MCPClients } from '@/app/tool/mcp';
+import { ToolCallAgent } from '@/app/toolcall';
+import { ValueError } from '@/app/utils/error';
+
+const SNAPSHOT_VERSION = 1;
+
+export interface MCPServerSnapshot {
+  server_id: string;
+  type: string;
+  url?: string;
+  command?: string;
+  args: string[];
+}
+
+/**
+ * Everything needed to continue an agent run in another process.
+ */
+export interface AgentSnapshot {
+  version: number;
+  session_id: string;
+  saved_at: string;
+  agent: {
+    class: string;
+    name: string;
+    description?: string;
+    system_prompt?: string;
+    next_step_prompt?: string;
+    max_steps: number;
+    duplicate_threshold: number;
+    model: string;
+    // Profile in config.llm the LLM of the agent was built from
+    llm_profile?: string;
+    tool_choices?: TOOL_CHOICE_TYPE;
+    special_tool_names?: string[];
+    max_observe?: number | boolean;
+    token_budget?: {
+      limit: number;
+      used: number;
+      scope: BUDGET_SCOPE_TYPE;
+      warning_thresholds: number[];
+    };
+  };
+  state: AGENT_STATE_TYPE;
+  current_step: number;
+  messages: Record<string, any>[];
+  tool_calls: Record<string, any>[];
+  mcp_servers: MCPServerSnapshot[];
+}
+
+/**
+ * Stores agent snapshots as JSON files, one per session, in the workspace.
+ */
+export class SessionStore {
+  dir: string;
+  private _writes: Map<string, Promise<void>> = new Map();
+
+  constructor({ dir = join(config.workspace_root, 'sessions') }: { dir?: string } = {}) {
+    this.dir = dir;
+  }
+
+  path_for(session_id: string): string {
+    if (!/^[\w.-]+$/.test(session_id)) {
+      throw new ValueError(`Invalid session id: ${session_id}`);
+    }
+    return join(this.dir, `${session_id}.json`);
+  }
+
+  /**
+   * Capture the current state of an agent.
+   */
+  static snapshot(agent: BaseAgent, session_id: string): AgentSnapshot {
+    const snapshot: AgentSnapshot = {
+      version: SNAPSHOT_VERSION,
+      session_id,
+      saved_at: new Date().toISOString(),
+      agent: {
+        class: agent.constructor.name,
+        name: agent.name,
+        description: agent.description,
+        system_prompt: agent.system_prompt,
+        next_step_prompt: agent.next_step_prompt,
+        max_steps: agent.max_steps,
+        duplicate_threshold: agent.duplicate_threshold,
+        model: agent.llm.model,
+        llm_profile: agent.llm.config_name,
+        token_budget: agent.token_budget && {
+          limit: agent.token_budget.limit,
+          used: agent.token_budget.used,
+          scope: agent.token_budget.scope,
+          warning_thresholds: agent.token_budget.warning_thresholds,
+        },
+      },
+      state: agent.state,
+      current_step: agent.current_step,
+      messages: agent.memory.to_dict_list(),
+      tool_calls: [],
+      mcp_servers: [],
+    };
+    if (agent instanceof ToolCallAgent) {
+      snapshot.agent.tool_choices = agent.tool_choices;
+      snapshot.agent.special_tool_names = agent.special_tool_names;
+      snapshot.agent.max_observe = agent.max_observe;
+      snapshot.tool_calls = agent.tool_calls.map((tc) => ({ ...tc }));
+    }
+    const mcp_clients = SessionStore._mcp_clients_of(agent);
+    if (mcp_clients) {
+      snapshot.mcp_servers = Array.from(mcp_clients.server_configs.entries()).map(
+        ([server_id, server]) => ({ server_id, ...server }),
+      );
+    }
+    return snapshot;
+  }
+
+  /**
+   * Write a snapshot of the agent to disk. Writes for one session are
+   * serialized and atomic, so a crash never leaves a half-written file.
+   */
+  async save(agent: BaseAgent, session_id: string): Promise<AgentSnapshot> {
+    const snapshot = SessionStore.snapshot(agent, session_id);
+    const path = this.path_for(session_id);
+    const previous = this._writes.get(session_id) ?? Promise.resolve();
+    const write = previous.then(async () => {
+      await mkdir(this.dir, { recursive: true });
+      const tmp_path = `${path}.${process.pid}.tmp`;
+      await writeFile(tmp_path, JSON.stringify(snapshot, null, 2), 'utf-8');
+      await rename(tmp_path, path);
+    });
+    this._writes.set(
+      session_id,
+      write.catch(() => undefined),
+    );
+    await write;
+    return snapshot;
+  }
+
+  /**
+   * Wait for the writes in progress, e.g. before the process exits.
+   */
+  async flush(): Promise<void> {
+    await Promise.all(this._writes.values());
+  }
+
+  /**
+   * @returns null if the session does not exist.
+   * @throws ValueError if its file is not a snapshot this version can read
+   */
+  async load(session_id: string): Promise<AgentSnapshot | null> {
+    let raw: string;
+    try {
+      raw = await readFile(this.path_for(session_id), 'utf-8');
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw e;
+    }
+    let snapshot: AgentSnapshot;
+    try {
+      snapshot = JSON.parse(raw);
+    } catch (e) {
+      throw new ValueError(`Session ${session_id} is corrupt: ${(e as Error).message}`);
+    }
+    if (snapshot?.version !== SNAPSHOT_VERSION) {
+      throw new ValueError(`Unsupported session snapshot version: ${snapshot?.version}`);
+    }
+    return snapshot;
+  }
+
+  async list(): Promise<string[]> {
+    try {
+      const files = await readdir(this.dir);
+      return files.filter((f) => f.endsWith('.json')).map((f) => f.slice(0, -'.json'.length));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw e;
+    }
+  }
+
+  async delete(session_id: string): Promise<void> {
+    await rm(this.path_for(session_id), { force: true });
+  }
+
+  /**
+   * Snapshot the agent after every step and when a run ends or is aborted.
+   * @returns A function that stops persisting the agent.
+   */
+  attach(agent: BaseAgent, session_id: string): () => void {
+    const persist = async () => {
+      try {
+        await this.save(agent, session_id);
+      } catch (e) {
+        console.error(`Failed to save session ${session_id}: ${e}`);
+      }
+    };
+    const unsubscribers = [
+      agent.events.on('step_end', persist),
+      agent.events.on('run_end', persist),
+      agent.events.on('run_aborted', persist),
+    ];
+    return () => unsubscribers.forEach((off) => off());
+  }
+
+  /**
+   * Load a session and rehydrate an agent from it. Without an agent instance,
+   * a ToolCallAgent, MCPAgent or Manus is created based on the snapshot.
+   * @throws ValueError if the session does not exist or cannot be read
+   */
+  async resume<T extends BaseAgent = BaseAgent>(session_id: string, agent?: T): Promise<T> {
+    const snapshot = await this.load(session_id);
+    if (!snapshot) {
+      throw new ValueError(`Session ${session_id} not found in ${this.dir}`);
+    }
+    return await SessionStore.restore(snapshot, agent);
+  }
+
+  /**
+   * Apply a snapshot to an agent and reconnect its MCP servers. The agent is
+   * left idle so `run()` without a request continues where it stopped.
+   */
+  static async restore<T extends BaseAgent = BaseAgent>(
+    snapshot: AgentSnapshot,
+    agent?: T,
+  ): Promise<T> {
+    const target = (agent ?? SessionStore._create_agent(snapshot)) as T;
+    const { agent: agent_config } = snapshot;
+
+    target.name = agent_config.name;
+    target.description = agent_config.description;
+    target.system_prompt = agent_config.system_prompt;
+    target.next_step_prompt = agent_config.next_step_prompt;
+    target.max_steps = agent_config.max_steps;
+    target.duplicate_threshold = agent_config.duplicate_threshold;
+    target.current_step = snapshot.current_step;
+    target.memory.messages = snapshot.messages.map((m) => Message.from_dict(m));
+    target.state = AgentState.IDLE;
+    if (target.llm.model !== agent_config.model) {
+      const llm = SessionStore._restore_llm(agent_config);
+      if (target.planning_llm === target.llm) {
+        target.planning_llm = llm;
+      }
+      target.llm = llm;
+    }
+    if (agent_config.token_budget) {
+      const { used, ...budget } = agent_config.token_budget;
+      target.token_budget = new TokenBudget(budget);
+      // Passed thresholds are not warned about again
+      target.token_budget.consume(used);
+    }
+    // The run continues, its budget is not reset
+    target.resuming = true;
+
+    if (target instanceof ToolCallAgent) {
+      if (agent_config.tool_choices) target.tool_choices = agent_config.tool_choices;
+      if (agent_config.special_tool_names) {
+        target.special_tool_names = agent_config.special_tool_names;
+      }
+      target.max_observe = agent_config.max_observe;
+      target.tool_calls = snapshot.tool_calls.map(
+        (tc) =>
+          new ToolCall({
+            id: tc.id,
+            type: tc.type,
+            fn: new Function({ name: tc.fn.name, args: tc.fn.args }),
+          }),
+      );
+    }
+
+    if (target instanceof MCPAgent) {
+      for (const server of snapshot.mcp_servers) {
+        if (server.type === 'sse' && server.url) {
+          await target.mcp_clients.connect_sse(server.url, server.server_id);
+        } else if (server.type === 'stdio' && server.command) {
+          await target.mcp_clients.connect_stdio(server.command, server.args, server.server_id);
+        } else {
+          console.warn(`Cannot reconnect MCP server ${server.server_id}: invalid config`);
+        }
+      }
+      target.available_tools = target.mcp_clients;
+      // Known tools must not be announced as new on the next refresh
+      const response = await target.mcp_clients.list_tools();
+      target.tool_schemas = new Map(
+        response.tools.map((tool) => [tool.name, tool.inputSchema as Record<string, any>]),
+      );
+    } else if (target instanceof Manus && snapshot.mcp_servers.length > 0) {
+      await target.restore_mcp_servers(snapshot.mcp_servers);
+    } else if (snapshot.mcp_servers.length > 0) {
+      console.warn(`Cannot reconnect MCP servers of ${target.constructor.name}`);
+    }
+
+    return target;
+  }
+
+  // MCP clients of the agents connected to MCP servers, such as MCPAgent and Manus
+  private static _mcp_clients_of(agent: BaseAgent): MCPClients | undefined {
+    const { mcp_clients } = agent as { mcp_clients?: unknown };
+    return mcp_clients instanceof MCPClients ? mcp_clients : undefined;
+  }
+
+  /**
+   * LLM of the model stored in a snapshot: the stored profile if it still
+   * uses that model, else another profile using it, else the stored or
+   * default profile with the model replaced.
+   */
+  private static _restore_llm({ model, llm_profile }: AgentSnapshot['agent']): LLM {
+    if (llm_profile && config.llm[llm_profile]?.model === model) {
+      return new LLM({ config_name: llm_profile });
+    }
+    const profile = Object.keys(config.llm).find((name) => config.llm[name].model === model);
+    if (profile) {
+      return new LLM({ config_name: profile });
+    }
+    const name = llm_profile && config.llm[llm_profile] ? llm_profile : 'default';
+    return new LLM({
+      config_name: name,
+      llm_config: new LLMSettings({ ...config.llm[name], model }),
+    });
+  }
+
+  private static _create_agent(snapshot: AgentSnapshot): BaseAgent {
+    switch (snapshot.agent.class) {
+      case Manus.name:
+        return new Manus();
+      case MCPAgent.name:
+        return new MCPAgent();
+      case ToolCallAgent.name:
+        return new ToolCallAgent({});
+      default:
+        throw new ValueError(
+          `Cannot create agent of class ${snapshot.agent.class}, pass an instance to restore into`,
+        );
+    }
+  }
+}
@@ -0,0 +1,94 @@
+import { TokenBudgetExceeded } from '@/app/utils/error';
+import { TypedEventEmitter } from '@/app/utils/event_emitter';
+
+export const BudgetScope = {
+  // Reset at the start of every run of the agent owning it
+  RUN: 'run',
+  // Kept across runs until reset explicitly
+  SESSION: 'session',
+} as const;
+
+export const BUDGET_SCOPE_VALUES = Array.from(Object.values(BudgetScope));
+export type BUDGET_SCOPE_TYPE = (typeof BudgetScope)[keyof typeof BudgetScope];
+
+export interface TokenBudgetEvents {
+  warning: { used: number; limit: number; threshold: number };
+  exhausted: { used: number; limit: number };
+}
+
+type TokenBudgetParams = Pick<TokenBudget, 'limit'> &
+  Partial<Pick<TokenBudget, 'warning_thresholds' | 'scope'>>;
+
+/**
+ * Cumulative number of tokens, input and completion, a run or session may
+ * spend across all its LLM calls. Unlike the context window it says nothing
+ * about the size of a single request.
+ */
+export class TokenBudget {
+  limit: number;
+  // Fractions of the limit at which a warning is emitted, once each
+  warning_thresholds: number[];
+  scope: BUDGET_SCOPE_TYPE;
+  used = 0;
+  private _warned: Set<number> = new Set();
+
+  events: TypedEventEmitter<TokenBudgetEvents> = new TypedEventEmitter();
+
+  constructor({
+    limit,
+    warning_thresholds = [0.8, 0.9],
+    scope = BudgetScope.RUN,
+  }: TokenBudgetParams) {
+    this.limit = limit;
+    this.warning_thresholds = [...warning_thresholds].sort((a, b) => a - b);
+    this.scope = scope;
+  }
+
+  get remaining(): number {
+    return Math.max(this.limit - this.used, 0);
+  }
+
+  get exhausted(): boolean {
+    return this.used >= this.limit;
+  }
+
+  /**
+   * Whether the highest warning threshold was crossed, the budget is about to
+   * run out.
+   */
+  get nearly_exhausted(): boolean {
+    const last = this.warning_thresholds[this.warning_thresholds.length - 1];
+    return last !== undefined && this.used >= this.limit * last;
+  }
+
+  /**
+   * Check that a request of `input_tokens` fits in what is left.
+   * @throws TokenBudgetExceeded
+   */
+  check(input_tokens: number): void {
+    if (this.used + input_tokens > this.limit) {
+      throw new TokenBudgetExceeded(
+        `Token budget exceeded: used=${this.used}, needed=${input_tokens}, budget=${this.limit}`,
+      );
+    }
+  }
+
+  consume(tokens: number): void {
+    const was_exhausted = this.exhausted;
+    this.used += tokens;
+    for (const threshold of this.warning_thresholds) {
+      if (this.used >= this.limit * threshold && !this._warned.has(threshold)) {
+        this._warned.add(threshold);
+        this.events.emit('warning', { used: this.used, limit: this.limit, threshold });
+      }
+    }
+    if (this.exhausted && !was_exhausted) {
+      this.events.emit('exhausted', { used: this.used, limit: this.limit });
+    }
+  }
+
+  reset(): void {
+    this.used = 0;
+    this._warned.clear();
+  }
+}
@@ -0,0 +1,300 @@
+import { readFileSync } from 'node:fs';
+import {
+  type Tiktoken,
+  type TiktokenEncoding,
+  type TiktokenModel,
+  encoding_for_model,
+  get_encoding,
+} from 'tiktoken';
+import { glob_to_regexp } from '@/app/capabilities';
+import { ValueError } from '@/app/utils/error';
+
+const TIKTOKEN_ENCODINGS: TiktokenEncoding[] = [
+  'gpt2',
+  'r50k_base',
+  'p50k_base',
+  'p50k_edit',
+  'cl100k_base',
+  'o200k_base',
+];
+
+/**
+ * Counts the tokens a model sees in a text.
+ */
+export interface Tokenizer {
+  readonly name: string;
+  count(text: string): number;
+}
+
+/**
+ * Tokenizer of OpenAI models, from tiktoken.
+ */
+export class TiktokenTokenizer implements Tokenizer {
+  readonly name: string;
+  encoding: Tiktoken;
+
+  constructor({ encoding, name }: { encoding: Tiktoken; name: string }) {
+    this.encoding = encoding;
+    this.name = name;
+  }
+
+  static for_encoding(name: TiktokenEncoding): TiktokenTokenizer {
+    return new TiktokenTokenizer({ encoding: get_encoding(name), name });
+  }
+
+  count(text: string): number {
+    // Special tokens in the text are counted as the single tokens they are
+    return text ? this.encoding.encode(text, 'all').length : 0;
+  }
+}
+
+// Pre-tokenizer pattern of GPT-2, used by ByteLevel when no Split precedes it
+const GPT2_PATTERN = String.raw`'s|'t|'re|'ve|'m|'ll|'d| ?\p{L}+| ?\p{N}+| ?[^\s\p{L}\p{N}]+|\s+(?!\S)|\s+`;
+
+// Words whose token count is remembered, the cache is emptied beyond
+const MAX_CACHED_WORDS = 50_000;
+
+/**
+ * Characters GPT-2 maps the 256 byte values to, so every byte sequence is a
+ * printable string.
+ */
+function bytes_to_unicode(): string[] {
+  const printable: number[] = [];
+  for (const [start, end] of [
+    [0x21, 0x7e],
+    [0xa1, 0xac],
+    [0xae, 0xff],
+  ]) {
+    for (let b = start; b <= end; b++) {
+      printable.push(b);
+    }
+  }
+  const chars: string[] = new Array(256);
+  let extra = 0;
+  for (let b = 0; b < 256; b++) {
+    chars[b] = String.fromCharCode(printable.includes(b) ? b : 256 + extra++);
+  }
+  return chars;
+}
+
+/**
+ * Translate the inline case-insensitive groups `(?i:...)` of Oniguruma
+ * patterns, which JavaScript lacks, into character classes.
+ */
+function to_js_pattern(pattern: string): string {
+  return pattern.replace(/\(\?i:((?:\\.|[^()\\])*)\)/g, (_group, body: string) => {
+    const source = body.replace(/\\.|[a-zA-Z]/g, (c) =>
+      c.length === 1 ? `[${c.toLowerCase()}${c.toUpperCase()}]` : c,
+    );
+    return `(?:${source})`;
+  });
+}
+
+/**
+ * Split a text on a pattern, keeping both the matches and the text between
+ * them, like the Isolated behavior of HuggingFace Split.
+ */
+function split_isolated(text: string, pattern: RegExp): string[] {
+  const pieces: string[] = [];
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    if (match.index > last) {
+      pieces.push(text.slice(last, match.index));
+    }
+    if (match[0]) {
+      pieces.push(match[0]);
+    }
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) {
+    pieces.push(text.slice(last));
+  }
+  return pieces;
+}
+
+/**
+ * Tokenizer loaded from a HuggingFace `tokenizer.json`, for models without
+ * a tiktoken encoding such as Qwen, Llama 3 or DeepSeek. Only byte-level BPE
+ * tokenizers are supported, the kind these models use.
+ */
+export class HuggingFaceTokenizer implements Tokenizer {
+  readonly name: string;
+  private _ranks: Map<string, number>;
+  private _vocab: Map<string, number>;
+  private _ignore_merges: boolean;
+  private _nfc: boolean;
+  private _split?: RegExp;
+  private _add_prefix_space: boolean;
+  private _added_tokens: Set<string>;
+  private _added_pattern?: RegExp;
+  private _byte_chars = bytes_to_unicode();
+  private _encoder = new TextEncoder();
+  private _cache: Map<string, number> = new Map();
+
+  constructor({ definition, name = 'tokenizer.json' }: { definition: any; name?: string }) {
+    const { model, normalizer, pre_tokenizer, added_tokens = [] } = definition;
+    if (model?.type !== 'BPE') {
+      throw new ValueError(`Unsupported tokenizer model ${model?.type}, only BPE is supported`);
+    }
+    const pre_tokenizers: any[] =
+      pre_tokenizer?.type === 'Sequence' ? pre_tokenizer.pretokenizers : [pre_tokenizer];
+    const byte_level = pre_tokenizers.find((p) => p?.type === 'ByteLevel');
+    if (!byte_level) {
+      throw new ValueError('Unsupported tokenizer, only byte-level BPE is supported');
+    }
+    this.name = name;
+    this._vocab = new Map(Object.entries(model.vocab as Record<string, number>));
+    this._ranks = new Map(
+      (model.merges as Array<string | [string, string]>).map((merge, rank) => [
+        Array.isArray(merge) ? merge.join(' ') : merge,
+        rank,
+      ]),
+    );
+    this._ignore_merges = Boolean(model.ignore_merges);
+    const normalizers: any[] =
+      normalizer?.type === 'Sequence' ? normalizer.normalizers : [normalizer];
+    this._nfc = normalizers.some((n) => n?.type === 'NFC');
+    const split = pre_tokenizers.find((p) => p?.type === 'Split' && p.pattern?.Regex);
+    if (split) {
+      this._split = new RegExp(to_js_pattern(split.pattern.Regex), 'gu');
+    } else if (byte_level.use_regex !== false) {
+      this._split = new RegExp(GPT2_PATTERN, 'gu');
+    }
+    this._add_prefix_space = Boolean(byte_level.add_prefix_space);
+    this._added_tokens = new Set(added_tokens.map((token: { content: string }) => token.content));
+    if (this._added_tokens.size) {
+      const contents = Array.from(this._added_tokens)
+        .sort((a, b) => b.length - a.length)
+        .map((content) => content.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+      this._added_pattern = new RegExp(contents.join('|'), 'g');
+    }
+  }
+
+  static from_file(path: string): HuggingFaceTokenizer {
+    let definition;
+    try {
+      definition = JSON.parse(readFileSync(path, 'utf-8'));
+    } catch (e) {
+      throw new ValueError(`Cannot load tokenizer ${path}: ${(e as Error).message}`);
+    }
+    return new HuggingFaceTokenizer({ definition, name: path });
+  }
+
+  count(text: string): number {
+    if (!text) {
+      return 0;
+    }
+    // Added tokens, the special ones among them, are single tokens never merged
+    const segments = this._added_pattern ? split_isolated(text, this._added_pattern) : [text];
+    return segments.reduce(
+      (count, segment) =>
+        count + (this._added_tokens.has(segment) ? 1 : this._count_segment(segment)),
+      0,
+    );
+  }
+
+  private _count_segment(text: string): number {
+    if (this._nfc) {
+      text = text.normalize('NFC');
+    }
+    if (this._add_prefix_space && !text.startsWith(' ')) {
+      text = ` ${text}`;
+    }
+    const words = this._split ? split_isolated(text, this._split) : [text];
+    let count = 0;
+    for (const word of words) {
+      let word_count = this._cache.get(word);
+      if (word_count === undefined) {
+        word_count = this._count_word(word);
+        if (this._cache.size >= MAX_CACHED_WORDS) {
+          this._cache.clear();
+        }
+        this._cache.set(word, word_count);
+      }
+      count += word_count;
+    }
+    return count;
+  }
+
+  /**
+   * Apply the BPE merges to one pre-tokenized word, in rank order.
+   */
+  private _count_word(word: string): number {
+    const symbols = Array.from(this._encoder.encode(word), (b) => this._byte_chars[b]);
+    if (this._ignore_merges && this._vocab.has(symbols.join(''))) {
+      return 1;
+    }
+    while (symbols.length > 1) {
+      let best_rank = Infinity;
+      let best = '';
+      for (let i = 0; i < symbols.length - 1; i++) {
+        const pair = `${symbols[i]} ${symbols[i + 1]}`;
+        const rank = this._ranks.get(pair);
+        if (rank !== undefined && rank < best_rank) {
+          best_rank = rank;
+          best = pair;
+        }
+      }
+      if (!best) {
+        break;
+      }
+      // Merge every occurrence of the best pair
+      for (let i = 0; i < symbols.length - 1; i++) {
+        if (`${symbols[i]} ${symbols[i + 1]}` === best) {
+          symbols.splice(i, 2, symbols[i] + symbols[i + 1]);
+        }
+      }
+    }
+    return symbols.length;
+  }
+}
+
+/**
+ * Factory for the tokenizer of a model.
+ *
+ * `LLMSettings.tokenizer` selects a tiktoken encoding by name or a
+ * HuggingFace `tokenizer.json` by path. Otherwise tokenizers registered for
+ * the model are used, then tiktoken's encoding of the model, then
+ * cl100k_base.
+ */
+export class TokenizerFactory {
+  private static _registered: Array<{ pattern: RegExp; create: (model: string) => Tokenizer }> = [];
+
+  /**
+   * Use `create` for the models matching a glob or RegExp, before the entries
+   * registered earlier.
+   */
+  static register(pattern: string | RegExp, create: (model: string) => Tokenizer): void {
+    TokenizerFactory._registered.unshift({
+      pattern: typeof pattern === 'string' ? glob_to_regexp(pattern) : pattern,
+      create,
+    });
+  }
+
+  static create_tokenizer({ model, tokenizer }: { model: string; tokenizer?: string }): Tokenizer {
+    if (tokenizer) {
+      if (tokenizer.endsWith('.json')) {
+        return HuggingFaceTokenizer.from_file(tokenizer);
+      }
+      if (!TIKTOKEN_ENCODINGS.includes(tokenizer as TiktokenEncoding)) {
+        throw new ValueError(
+          `Unknown tokenizer: ${tokenizer}. Use a path to a tokenizer.json or one of ` +
+            TIKTOKEN_ENCODINGS.join(', '),
+        );
+      }
+      return TiktokenTokenizer.for_encoding(tokenizer as TiktokenEncoding);
+    }
+    const registered = TokenizerFactory._registered.find(({ pattern }) => pattern.test(model));
+    if (registered) {
+      return registered.create(model);
+    }
+    try {
+      return new TiktokenTokenizer({
+        encoding: encoding_for_model(model as TiktokenModel),
+        name: model,
+      });
+    } catch (_e) {
+      return TiktokenTokenizer.for_encoding('cl100k_base');
+    }
+  }
+}
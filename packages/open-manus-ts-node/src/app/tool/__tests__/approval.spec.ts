@@ -0,0 +1,138 @@
+import { describe, expect, test, vi } from 'vitest';
+import { LLM } from '@/app/llm';
+import { Function, ToolCall } from '@/app/schema';
+import { ApprovalPolicy, type ApprovalRequest } from '@/app/tool/approval';
+import { BaseTool, ToolResult } from '@/app/tool/base';
+import { ToolCollection } from '@/app/tool/tool_collection';
+import { ToolCallAgent } from '@/app/toolcall';
+
+class EchoTool extends BaseTool {
+  name = 'echo';
+  description = 'Echo the arguments';
+  parameters = {
+    type: 'object',
+    properties: { text: { type: 'string' }, times: { type: 'integer', minimum: 1 } },
+    required: ['text'],
+  };
+
+  async execute(args: Record<string, any>): Promise<ToolResult> {
+    return new ToolResult({ output: JSON.stringify(args) });
+  }
+}
+
+class RemoteTool extends EchoTool {
+  name = 'remote_echo';
+  server_id = 'remote';
+}
+
+function request(tool_name: string, server_id?: string): ApprovalRequest {
+  return {
+    agent: 'test',
+    tool_call: new ToolCall({
+      id: 'call_1',
+      type: 'function',
+      fn: new Function({ name: tool_name, args: '{}' }),
+    }),
+    tool_name,
+    server_id,
+    args: {},
+  };
+}
+
+describe('ApprovalPolicy', () => {
+  test('allows every call by default', async () => {
+    expect(await new ApprovalPolicy().review(request('bash'))).toEqual({ type: 'approve' });
+  });
+
+  test('applies the first rule matching the tool name', async () => {
+    const policy = new ApprovalPolicy({
+      rules: [
+        { tool: 'bash', action: 'deny', reason: 'No shell' },
+        { tool: 'bash', action: 'allow' },
+      ],
+    });
+    expect(await policy.review(request('bash'))).toEqual({ type: 'reject', reason: 'No shell' });
+    expect(await policy.review(request('python_execute'))).toEqual({ type: 'approve' });
+  });
+
+  test('matches tool names against patterns', () => {
+    const rule = { tool: /^browser_/, action: 'deny' as const };
+    const policy = new ApprovalPolicy({ rules: [rule] });
+    expect(policy.match('browser_use')).toBe(rule);
+    expect(policy.match('bash')).toBeUndefined();
+  });
+
+  test('matches the MCP server of a tool', () => {
+    const server = { server_id: 'remote', action: 'deny' as const };
+    const tool_of_server = { tool: 'echo', server_id: 'remote', action: 'allow' as const };
+    const policy = new ApprovalPolicy({ rules: [tool_of_server, server] });
+    expect(policy.match('echo', 'remote')).toBe(tool_of_server);
+    expect(policy.match('other', 'remote')).toBe(server);
+    expect(policy.match('echo')).toBeUndefined();
+    expect(ApprovalPolicy.server_id_of(new RemoteTool())).toBe('remote');
+    expect(ApprovalPolicy.server_id_of(new EchoTool())).toBeUndefined();
+  });
+
+  test('hands the calls to ask about to the approver', async () => {
+    const approver = vi.fn(() => ({ type: 'edit' as const, args: { text: 'edited' } }));
+    const policy = new ApprovalPolicy({ default_action: 'ask', approver });
+    const asked = request('bash');
+    expect(await policy.review(asked)).toEqual({ type: 'edit', args: { text: 'edited' } });
+    expect(approver).toHaveBeenCalledWith(asked, undefined);
+  });
+
+  test('rejects the calls to ask about without an approver', async () => {
+    const policy = new ApprovalPolicy({ default_action: 'ask' });
+    expect(await policy.review(request('bash'))).toMatchObject({ type: 'reject' });
+  });
+});
+
+describe('ToolCallAgent with an approval policy', () => {
+  function agent(approval_policy: ApprovalPolicy): ToolCallAgent {
+    return new ToolCallAgent({
+      llm: new LLM({}),
+      available_tools: new ToolCollection({ tools: [new EchoTool()] }),
+      approval_policy,
+      log_to_console: false,
+    });
+  }
+
+  const call = new ToolCall({
+    id: 'call_1',
+    type: 'function',
+    fn: new Function({ name: 'echo', args: '{"text": "hi"}' }),
+  });
+
+  function editing_to(args: Record<string, any>): ApprovalPolicy {
+    return new ApprovalPolicy({
+      default_action: 'ask',
+      approver: () => ({ type: 'edit', args }),
+    });
+  }
+
+  test('runs an allowed call', async () => {
+    expect(await agent(new ApprovalPolicy()).execute_tool(call)).toBe(
+      'Observed output of cmd `echo` executed:\n{"text":"hi"}',
+    );
+  });
+
+  test('does not run a rejected call', async () => {
+    const policy = new ApprovalPolicy({ rules: [{ tool: 'echo', action: 'deny', reason: 'No' }] });
+    expect(await agent(policy).execute_tool(call)).toBe(
+      'Error: Cmd `echo` was not approved: No. Choose another way to proceed.',
+    );
+  });
+
+  test('runs a call with the edited arguments, checked against the schema', async () => {
+    expect(await agent(editing_to({ text: 'edited', times: '2' })).execute_tool(call)).toBe(
+      'Observed output of cmd `echo` executed:\n{"text":"edited","times":2}',
+    );
+  });
+
+  test('reports edited arguments that do not match the schema', async () => {
+    expect(await agent(editing_to({ times: 0 })).execute_tool(call)).toBe(
+      'Error: Invalid arguments for echo:\n$.text: is required\n$.times: must be >= 1\n' +
+        'Fix these arguments and call `echo` again.',
+    );
+  });
+});
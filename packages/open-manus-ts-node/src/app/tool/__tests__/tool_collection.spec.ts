@@ -0,0 +1,54 @@
+import { describe, expect, test } from 'vitest';
+import { BaseTool, ToolFailure, ToolResult } from '@/app/tool/base';
+import { ToolCollection } from '@/app/tool/tool_collection';
+import { InvalidToolArguments } from '@/app/utils/error';
+
+class EchoTool extends BaseTool {
+  name = 'echo';
+  description = 'Echo the arguments';
+
+  constructor(public parameters: Record<string, any>) {
+    super();
+  }
+
+  async execute(args: Record<string, any>): Promise<ToolResult> {
+    return new ToolResult({ output: JSON.stringify(args) });
+  }
+}
+
+describe('ToolCollection.validate_args', () => {
+  const tools = new ToolCollection({
+    tools: [
+      new EchoTool({
+        type: 'object',
+        properties: { text: { type: 'string' }, times: { type: 'integer', minimum: 1 } },
+        required: ['text'],
+      }),
+    ],
+  });
+
+  test('coerces the arguments before running the tool', () => {
+    expect(tools.validate_args('echo', { text: 'hi', times: '2' })).toEqual({
+      text: 'hi',
+      times: 2,
+    });
+  });
+
+  test('lists every failing field', () => {
+    expect(() => tools.validate_args('echo', { times: 0 })).toThrow(InvalidToolArguments);
+    expect(() => tools.validate_args('echo', { times: 0 })).toThrow(
+      'Invalid arguments for echo:\n$.text: is required\n$.times: must be >= 1',
+    );
+  });
+
+  test('reports an invalid pattern of the tool as invalid arguments', async () => {
+    const broken = new ToolCollection({
+      tools: [
+        new EchoTool({ type: 'object', properties: { text: { type: 'string', pattern: '[' } } }),
+      ],
+    });
+    expect(() => broken.validate_args('echo', { text: 'hi' })).toThrow(InvalidToolArguments);
+    const result = await broken.excute({ name: 'echo', tool_input: { text: 'hi' } });
+    expect(result).toBeInstanceOf(ToolFailure);
+  });
+});
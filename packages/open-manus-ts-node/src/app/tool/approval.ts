@@ -0,0 +1,108 @@
+import type { BaseTool } from '@/app/tool/base';
+import type { ToolCall } from '@/app/schema';
+
+export const ApprovalAction = {
+  ALLOW: 'allow',
+  DENY: 'deny',
+  ASK: 'ask',
+} as const;
+export const APPROVAL_ACTION_VALUES = Array.from(Object.values(ApprovalAction));
+export type APPROVAL_ACTION_TYPE = (typeof ApprovalAction)[keyof typeof ApprovalAction];
+
+export interface ApprovalRule {
+  // Tool name, or a pattern matched against it
+  tool?: string | RegExp;
+  // MCP server the tool belongs to
+  server_id?: string;
+  action: APPROVAL_ACTION_TYPE;
+  // Reason reported to the model when the rule denies a call
+  reason?: string;
+}
+
+export interface ApprovalRequest {
+  agent: string;
+  tool_call: ToolCall;
+  tool_name: string;
+  server_id?: string;
+  args: Record<string, any>;
+}
+
+export type ApprovalDecision =
+  | { type: 'approve' }
+  | { type: 'reject'; reason?: string }
+  | { type: 'edit'; args: Record<string, any> };
+
+export type Approver = (
+  request: ApprovalRequest,
+  signal?: AbortSignal,
+) => ApprovalDecision | Promise<ApprovalDecision>;
+
+/**
+ * Decides whether a tool call may run.
+ *
+ * Rules are checked in order and the first one matching the tool name and/or
+ * MCP server wins; calls no rule matches get `default_action`. Calls resolved
+ * to `ask` are handed to the approver callback, and rejected when there is none.
+ */
+export class ApprovalPolicy {
+  rules: ApprovalRule[];
+  default_action: APPROVAL_ACTION_TYPE;
+  approver?: Approver;
+
+  constructor({
+    rules = [],
+    default_action = ApprovalAction.ALLOW,
+    approver,
+  }: Partial<Pick<ApprovalPolicy, 'rules' | 'default_action' | 'approver'>> = {}) {
+    this.rules = rules;
+    this.default_action = default_action;
+    this.approver = approver;
+  }
+
+  /**
+   * Find the rule that applies to a tool, if any.
+   */
+  match(tool_name: string, server_id?: string): ApprovalRule | undefined {
+    return this.rules.find((rule) => {
+      if (rule.tool === undefined && rule.server_id === undefined) {
+        return true;
+      }
+      if (rule.server_id !== undefined && rule.server_id !== server_id) {
+        return false;
+      }
+      if (typeof rule.tool === 'string') {
+        return rule.tool === tool_name;
+      }
+      if (rule.tool instanceof RegExp) {
+        return rule.tool.test(tool_name);
+      }
+      return true;
+    });
+  }
+
+  async review(request: ApprovalRequest, signal?: AbortSignal): Promise<ApprovalDecision> {
+    const rule = this.match(request.tool_name, request.server_id);
+    const action = rule?.action ?? this.default_action;
+
+    if (action === ApprovalAction.ALLOW) {
+      return { type: 'approve' };
+    }
+    if (action === ApprovalAction.DENY) {
+      return { type: 'reject', reason: rule?.reason ?? 'Denied by approval policy' };
+    }
+    if (!this.approver) {
+      return { type: 'reject', reason: 'Approval required but no approver is configured' };
+    }
+    return await this.approver(request, signal);
+  }
+
+  /**
+   * Resolve the MCP server a tool belongs to, for tools that have one.
+   */
+  static server_id_of(tool?: BaseTool): string | undefined {
+    if (tool && 'server_id' in tool && typeof tool.server_id === 'string' && tool.server_id) {
+      return tool.server_id;
+    }
+    return undefined;
+  }
+}
@@ -5,8 +5,10 @@ export abstract class BaseTool {
   name!: string;
   description!: string;
   parameters?: any;
+  // Must not run concurrently with other tool calls of the same turn
+  serial: boolean = false;
 
-  abstract execute(params?: any): Promise<any>;
+  abstract execute(params?: any, signal?: AbortSignal): Promise<any>;
 
   to_param() {
     return {
@@ -93,4 +95,19 @@ export class ToolResult {
 
 export class CLIResult extends ToolResult {}
 
+/**
+ * A result carrying a machine-readable value, rendered as JSON for the model.
+ */
+export class StructuredResult extends ToolResult {
+  value: unknown;
+
+  constructor({ value, ...props }: PropertiesOnly<ToolResult> & { value: unknown }) {
+    super({
+      output: typeof value === 'string' ? value : JSON.stringify(value),
+      ...props,
+    });
+    this.value = value;
+  }
+}
+
 export class ToolFailure extends ToolResult {}
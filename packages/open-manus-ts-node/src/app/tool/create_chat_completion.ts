@@ -1,15 +1,155 @@
-// import { BaseTool } from '@/app/tool/base';
-//
-// class CreateChatCompletion extends BaseTool {
-//   name = 'create_chat_completion';
-//   description = 'Creates a structured completion with specified output formatting.';
-//   type_mapping = {
-//     str: 'string',
-//     int: 'integer',
-//     float: 'number',
-//     bool: 'boolean',
-//     dict: 'object',
-//     list: 'array',
-//   };
-//   response_type?
-// }
+import { BaseTool, StructuredResult } from '@/app/tool/base';
+import { ToolError } from '@/app/utils/error';
+import type { JSONSchema } from '@/app/utils/json_schema';
+import { format_schema_errors, validate_schema } from '@/app/utils/json_schema';
+
+const TYPE_MAPPING = {
+  str: 'string',
+  int: 'integer',
+  float: 'number',
+  bool: 'boolean',
+  dict: 'object',
+  list: 'array',
+} as const;
+
+export type PRIMITIVE_TYPE = keyof typeof TYPE_MAPPING;
+
+/**
+ * Declared type of the response, the TypeScript counterpart of the Python
+ * type hints the tool is built from.
+ */
+export type ResponseType =
+  | PRIMITIVE_TYPE
+  // list[T]
+  | { list: ResponseType }
+  // dict[str, T]
+  | { dict: ResponseType }
+  // A model with named fields, all required unless `required` says otherwise
+  | { object: Record<string, ResponseType>; required?: string[] }
+  | { enum: Array<string | number | boolean> }
+  // Union[A, B, ...]
+  | { union: ResponseType[] };
+
+/**
+ * Creates a structured completion with specified output formatting.
+ *
+ * The model answers by calling the tool with arguments matching the declared
+ * response type, and the parsed value is returned in a StructuredResult. Add
+ * the tool to the agent's special tool names to end the run on it.
+ */
+export class CreateChatCompletion extends BaseTool {
+  name = 'create_chat_completion';
+  description = 'Creates a structured completion with specified output formatting.';
+  type_mapping = TYPE_MAPPING;
+  response_type: ResponseType;
+  required: string[];
+
+  constructor({
+    response_type = 'str',
+    required = ['response'],
+  }: { response_type?: ResponseType; required?: string[] } = {}) {
+    super();
+    this.response_type = response_type;
+    this.required = required;
+    this.parameters = this._build_parameters();
+  }
+
+  /**
+   * Build parameters schema based on response type.
+   */
+  private _build_parameters(): JSONSchema {
+    if (this.response_type === 'str') {
+      return {
+        type: 'object',
+        properties: {
+          response: {
+            type: 'string',
+            description: 'The response text that should be delivered to the user.',
+          },
+        },
+        required: this.required,
+      };
+    }
+
+    // Fields of a model are the parameters themselves
+    if (typeof this.response_type === 'object' && 'object' in this.response_type) {
+      const schema = this.get_type_info(this.response_type);
+      return {
+        type: 'object',
+        properties: schema.properties,
+        required: schema.required,
+      };
+    }
+
+    return {
+      type: 'object',
+      properties: {
+        response: {
+          ...this.get_type_info(this.response_type),
+          description: `Response of type ${CreateChatCompletion.describe(this.response_type)}`,
+        },
+      },
+      required: this.required,
+    };
+  }
+
+  /**
+   * Get the JSON Schema of a type.
+   */
+  get_type_info(type: ResponseType): JSONSchema {
+    if (typeof type === 'string') {
+      return { type: this.type_mapping[type] ?? 'string' };
+    }
+    if ('list' in type) {
+      return { type: 'array', items: this.get_type_info(type.list) };
+    }
+    if ('dict' in type) {
+      return { type: 'object', additionalProperties: this.get_type_info(type.dict) };
+    }
+    if ('object' in type) {
+      const properties = Object.fromEntries(
+        Object.entries(type.object).map(([key, value]) => [key, this.get_type_info(value)]),
+      );
+      return {
+        type: 'object',
+        properties,
+        required: type.required ?? Object.keys(type.object),
+      };
+    }
+    if ('enum' in type) {
+      const types = Array.from(new Set(type.enum.map((v) => typeof v)));
+      return types.length === 1 ? { type: types[0], enum: type.enum } : { enum: type.enum };
+    }
+    return { anyOf: type.union.map((t) => this.get_type_info(t)) };
+  }
+
+  async execute(params: Record<string, any> = {}): Promise<StructuredResult> {
+    const errors = validate_schema(this.parameters, params);
+    if (errors.length > 0) {
+      throw new ToolError(`Invalid arguments for ${this.name}:\n${format_schema_errors(errors)}`);
+    }
+
+    // A model is made of all the arguments
+    if (typeof this.response_type === 'object' && 'object' in this.response_type) {
+      return new StructuredResult({ value: params });
+    }
+    if (this.required.length > 1) {
+      return new StructuredResult({
+        value: Object.fromEntries(this.required.map((field) => [field, params[field] ?? ''])),
+      });
+    }
+    return new StructuredResult({ value: params[this.required[0] ?? 'response'] ?? '' });
+  }
+
+  /**
+   * Human readable name of a type, used in the schema description.
+   */
+  static describe(type: ResponseType): string {
+    if (typeof type === 'string') return type;
+    if ('list' in type) return `list[${CreateChatCompletion.describe(type.list)}]`;
+    if ('dict' in type) return `dict[str, ${CreateChatCompletion.describe(type.dict)}]`;
+    if ('object' in type) return 'object';
+    if ('enum' in type) return `Literal[${type.enum.map((v) => JSON.stringify(v)).join(', ')}]`;
+    return `Union[${type.union.map((t) => CreateChatCompletion.describe(t)).join(', ')}]`;
+  }
+}
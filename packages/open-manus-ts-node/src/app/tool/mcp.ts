@@ -4,7 +4,9 @@ import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
 import type { ListToolsResult, TextContent, Tool } from '@modelcontextprotocol/sdk/types.js';
 import { BaseTool, ToolResult } from '@/app/tool/base';
+import { MCPServerConfig } from '@/app/config';
 import { ToolCollection } from '@/app/tool/tool_collection';
+import { is_abort_error, to_abort_error } from '@/app/utils/abort';
 
 type HttpTransport = StreamableHTTPClientTransport | SSEClientTransport;
 
@@ -43,17 +45,21 @@ export class MCPClientTool extends BaseTool {
     this.original_name = original_name || name;
   }
 
-  async execute(params?: Record<string, any>): Promise<ToolResult> {
+  async execute(params?: Record<string, any>, signal?: AbortSignal): Promise<ToolResult> {
     if (!this.client) {
       return new ToolResult({ error: 'Not connected to MCP server' });
     }
 
     try {
       console.info(`Executing tool: ${this.original_name}`);
-      const result = await this.client.callTool({
-        name: this.original_name,
-        arguments: params || {},
-      });
+      const result = await this.client.callTool(
+        {
+          name: this.original_name,
+          arguments: params || {},
+        },
+        undefined,
+        { signal },
+      );
 
       const content = result.content as Array<{ type: string; text?: string }>;
       const contentStr = content
@@ -65,6 +71,10 @@ export class MCPClientTool extends BaseTool {
 
       return new ToolResult({ output: contentStr || 'No output returned.' });
     } catch (e) {
+      // Cancellation is not a tool failure, let it reach the agent
+      if (is_abort_error(e) || signal?.aborted) {
+        throw to_abort_error(signal?.reason ?? e);
+      }
       return new ToolResult({ error: `Error executing tool: ${String(e)}` });
     }
   }
@@ -81,6 +91,8 @@ export class MCPClientTool extends BaseTool {
 export class MCPClients extends ToolCollection {
   clients: Map<string, Client> = new Map();
   transports: Map<string, HttpTransport | StdioClientTransport> = new Map();
+  // How each server was connected, so the connection can be re-established
+  server_configs: Map<string, MCPServerConfig> = new Map();
   description: string = 'MCP client tools for server interaction';
 
   constructor() {
@@ -114,7 +126,7 @@ export class MCPClients extends ToolCollection {
         { capabilities: {} },
       );
       transport = new StreamableHTTPClientTransport(baseUrl);
-      await client.connect(transport);
+      await this._connect_or_close(client, transport);
       console.info(`Connected to MCP server ${id} using Streamable HTTP`);
     } catch {
       // Fall back to SSE for backwards compatibility
@@ -123,16 +135,30 @@ export class MCPClients extends ToolCollection {
         { capabilities: {} },
       );
       transport = new SSEClientTransport(baseUrl);
-      await client.connect(transport);
+      await this._connect_or_close(client, transport);
       console.info(`Connected to MCP server ${id} using SSE (fallback)`);
     }
 
     this.clients.set(id, client);
     this.transports.set(id, transport);
+    this.server_configs.set(id, new MCPServerConfig({ type: 'sse', url: server_url }));
 
     await this._initialize_and_list_tools(id);
   }
 
+  /**
+   * Connect a client, closing the transport if it fails so that no pending
+   * request or reconnection timer keeps the process alive.
+   */
+  private async _connect_or_close(client: Client, transport: HttpTransport): Promise<void> {
+    try {
+      await client.connect(transport);
+    } catch (e) {
+      await transport.close().catch(() => undefined);
+      throw e;
+    }
+  }
+
   /**
    * Connect to an MCP server using stdio transport.
    */
@@ -166,6 +192,7 @@ export class MCPClients extends ToolCollection {
     await client.connect(transport);
     this.clients.set(id, client);
     this.transports.set(id, transport);
+    this.server_configs.set(id, new MCPServerConfig({ type: 'stdio', command, args }));
 
     await this._initialize_and_list_tools(id);
   }
@@ -260,6 +287,7 @@ export class MCPClients extends ToolCollection {
           // Clean up references
           this.clients.delete(server_id);
           this.transports.delete(server_id);
+          this.server_configs.delete(server_id);
 
           // Remove tools associated with this server
           for (const [key, tool] of this.tool_map.entries()) {
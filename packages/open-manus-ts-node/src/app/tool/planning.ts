@@ -0,0 +1,315 @@
+import { BaseTool, ToolResult } from '@/app/tool/base';
+import { ToolError } from '@/app/utils/error';
+
+const PLANNING_TOOL_DESCRIPTION = `A planning tool that allows the agent to create and manage plans for solving complex tasks.
+The tool provides functionality for creating plans, updating plan steps, and tracking progress.`;
+
+export const PlanStepStatus = {
+  NOT_STARTED: 'not_started',
+  IN_PROGRESS: 'in_progress',
+  COMPLETED: 'completed',
+  BLOCKED: 'blocked',
+} as const;
+export const PLAN_STEP_STATUS_VALUES = Array.from(Object.values(PlanStepStatus));
+export type PLAN_STEP_STATUS_TYPE = (typeof PlanStepStatus)[keyof typeof PlanStepStatus];
+
+// Marker displayed in front of a step for each status
+export const PLAN_STEP_STATUS_MARKS: Record<PLAN_STEP_STATUS_TYPE, string> = {
+  completed: '[✓]',
+  in_progress: '[→]',
+  blocked: '[!]',
+  not_started: '[ ]',
+};
+
+export interface Plan {
+  plan_id: string;
+  title: string;
+  steps: string[];
+  step_statuses: PLAN_STEP_STATUS_TYPE[];
+  step_notes: string[];
+}
+
+const PLAN_COMMANDS = ['create', 'update', 'list', 'get', 'set_active', 'mark_step', 'delete'];
+
+interface PlanningParams {
+  command: string;
+  plan_id?: string;
+  title?: string;
+  steps?: string[];
+  step_index?: number;
+  step_status?: PLAN_STEP_STATUS_TYPE;
+  step_notes?: string;
+}
+
+/**
+ * A planning tool that allows the agent to create and manage plans for solving complex tasks.
+ */
+export class PlanningTool extends BaseTool {
+  name = 'planning';
+  description = PLANNING_TOOL_DESCRIPTION;
+  parameters = {
+    type: 'object',
+    properties: {
+      command: {
+        description:
+          'The command to execute. Available commands: create, update, list, get, set_active, mark_step, delete.',
+        enum: PLAN_COMMANDS,
+        type: 'string',
+      },
+      plan_id: {
+        description:
+          'Unique identifier for the plan. Required for create, update, set_active, and delete commands. Optional for get and mark_step (uses active plan if not specified).',
+        type: 'string',
+      },
+      title: {
+        description:
+          'Title for the plan. Required for create command, optional for update command.',
+        type: 'string',
+      },
+      steps: {
+        description:
+          'List of plan steps. Required for create command, optional for update command.',
+        type: 'array',
+        items: { type: 'string' },
+      },
+      step_index: {
+        description: 'Index of the step to update (0-based). Required for mark_step command.',
+        type: 'integer',
+      },
+      step_status: {
+        description: 'Status to set for a step. Used with mark_step command.',
+        enum: PLAN_STEP_STATUS_VALUES,
+        type: 'string',
+      },
+      step_notes: {
+        description: 'Additional notes for a step. Optional for mark_step command.',
+        type: 'string',
+      },
+    },
+    required: ['command'],
+    additionalProperties: false,
+  };
+  // Plans are tool wide, one tool can be shared by a flow and its agents
+  serial = true;
+
+  plans: Map<string, Plan> = new Map();
+  private _current_plan_id?: string;
+
+  async execute({
+    command,
+    plan_id,
+    title,
+    steps,
+    step_index,
+    step_status,
+    step_notes,
+  }: PlanningParams): Promise<ToolResult> {
+    switch (command) {
+      case 'create':
+        return this._create_plan(plan_id, title, steps);
+      case 'update':
+        return this._update_plan(plan_id, title, steps);
+      case 'list':
+        return this._list_plans();
+      case 'get':
+        return this._get_plan(plan_id);
+      case 'set_active':
+        return this._set_active_plan(plan_id);
+      case 'mark_step':
+        return this._mark_step(plan_id, step_index, step_status, step_notes);
+      case 'delete':
+        return this._delete_plan(plan_id);
+      default:
+        throw new ToolError(
+          `Unrecognized command: ${command}. Allowed commands are: ${PLAN_COMMANDS.join(', ')}`,
+        );
+    }
+  }
+
+  /**
+   * Get a plan, defaulting to the active one.
+   */
+  get_plan(plan_id?: string): Plan {
+    const id = plan_id ?? this._current_plan_id;
+    if (!id) {
+      throw new ToolError('No active plan. Please specify a plan_id or set an active plan.');
+    }
+    const plan = this.plans.get(id);
+    if (!plan) {
+      throw new ToolError(`No plan found with ID: ${id}`);
+    }
+    return plan;
+  }
+
+  private _create_plan(plan_id?: string, title?: string, steps?: string[]): ToolResult {
+    if (!plan_id) {
+      throw new ToolError('Parameter `plan_id` is required for command: create');
+    }
+    if (this.plans.has(plan_id)) {
+      throw new ToolError(
+        `A plan with ID '${plan_id}' already exists. Use 'update' to modify existing plans.`,
+      );
+    }
+    if (!title) {
+      throw new ToolError('Parameter `title` is required for command: create');
+    }
+    if (!Array.isArray(steps) || !steps.every((step) => typeof step === 'string')) {
+      throw new ToolError(
+        'Parameter `steps` must be a non-empty list of strings for command: create',
+      );
+    }
+
+    const plan: Plan = {
+      plan_id,
+      title,
+      steps,
+      step_statuses: steps.map(() => PlanStepStatus.NOT_STARTED),
+      step_notes: steps.map(() => ''),
+    };
+    this.plans.set(plan_id, plan);
+    this._current_plan_id = plan_id;
+
+    return new ToolResult({
+      output: `Plan created successfully with ID: ${plan_id}\n\n${PlanningTool.format_plan(plan)}`,
+    });
+  }
+
+  private _update_plan(plan_id?: string, title?: string, steps?: string[]): ToolResult {
+    if (!plan_id) {
+      throw new ToolError('Parameter `plan_id` is required for command: update');
+    }
+    const plan = this.get_plan(plan_id);
+
+    if (title) {
+      plan.title = title;
+    }
+    if (steps) {
+      if (!Array.isArray(steps) || !steps.every((step) => typeof step === 'string')) {
+        throw new ToolError('Parameter `steps` must be a list of strings for command: update');
+      }
+      // Preserve the status of steps that did not change
+      const statuses: PLAN_STEP_STATUS_TYPE[] = [];
+      const notes: string[] = [];
+      steps.forEach((step, i) => {
+        if (i < plan.steps.length && step === plan.steps[i]) {
+          statuses.push(plan.step_statuses[i]);
+          notes.push(plan.step_notes[i]);
+        } else {
+          statuses.push(PlanStepStatus.NOT_STARTED);
+          notes.push('');
+        }
+      });
+      plan.steps = steps;
+      plan.step_statuses = statuses;
+      plan.step_notes = notes;
+    }
+
+    return new ToolResult({
+      output: `Plan updated successfully: ${plan_id}\n\n${PlanningTool.format_plan(plan)}`,
+    });
+  }
+
+  private _list_plans(): ToolResult {
+    if (this.plans.size === 0) {
+      return new ToolResult({
+        output: "No plans available. Create a plan with the 'create' command.",
+      });
+    }
+    let output = 'Available plans:\n';
+    for (const [plan_id, plan] of this.plans) {
+      const current = plan_id === this._current_plan_id ? ' (active)' : '';
+      const completed = plan.step_statuses.filter((s) => s === PlanStepStatus.COMPLETED).length;
+      output += `• ${plan_id}${current}: ${plan.title} - ${completed}/${plan.steps.length} steps completed\n`;
+    }
+    return new ToolResult({ output });
+  }
+
+  private _get_plan(plan_id?: string): ToolResult {
+    return new ToolResult({ output: PlanningTool.format_plan(this.get_plan(plan_id)) });
+  }
+
+  private _set_active_plan(plan_id?: string): ToolResult {
+    if (!plan_id) {
+      throw new ToolError('Parameter `plan_id` is required for command: set_active');
+    }
+    const plan = this.get_plan(plan_id);
+    this._current_plan_id = plan_id;
+    return new ToolResult({
+      output: `Plan '${plan_id}' is now the active plan.\n\n${PlanningTool.format_plan(plan)}`,
+    });
+  }
+
+  private _mark_step(
+    plan_id?: string,
+    step_index?: number,
+    step_status?: PLAN_STEP_STATUS_TYPE,
+    step_notes?: string,
+  ): ToolResult {
+    const plan = this.get_plan(plan_id);
+    if (step_index == null) {
+      throw new ToolError('Parameter `step_index` is required for command: mark_step');
+    }
+    if (step_index < 0 || step_index >= plan.steps.length) {
+      throw new ToolError(
+        `Invalid step_index: ${step_index}. Valid indices range from 0 to ${plan.steps.length - 1}.`,
+      );
+    }
+    if (step_status && !PLAN_STEP_STATUS_VALUES.includes(step_status)) {
+      throw new ToolError(
+        `Invalid step_status: ${step_status}. Valid statuses are: ${PLAN_STEP_STATUS_VALUES.join(', ')}`,
+      );
+    }
+
+    if (step_status) {
+      plan.step_statuses[step_index] = step_status;
+    }
+    if (step_notes) {
+      plan.step_notes[step_index] = step_notes;
+    }
+
+    return new ToolResult({
+      output: `Step ${step_index} updated in plan '${plan.plan_id}'.\n\n${PlanningTool.format_plan(plan)}`,
+    });
+  }
+
+  private _delete_plan(plan_id?: string): ToolResult {
+    if (!plan_id) {
+      throw new ToolError('Parameter `plan_id` is required for command: delete');
+    }
+    if (!this.plans.delete(plan_id)) {
+      throw new ToolError(`No plan found with ID: ${plan_id}`);
+    }
+    if (this._current_plan_id === plan_id) {
+      this._current_plan_id = undefined;
+    }
+    return new ToolResult({ output: `Plan '${plan_id}' has been deleted.` });
+  }
+
+  /**
+   * Format a plan for display.
+   */
+  static format_plan(plan: Plan): string {
+    const total = plan.steps.length;
+    const count = (status: PLAN_STEP_STATUS_TYPE) =>
+      plan.step_statuses.filter((s) => s === status).length;
+    const completed = count(PlanStepStatus.COMPLETED);
+    const progress = total > 0 ? (completed / total) * 100 : 0;
+
+    let output = `Plan: ${plan.title} (ID: ${plan.plan_id})\n`;
+    output += `${'='.repeat(output.length - 1)}\n\n`;
+    output += `Progress: ${completed}/${total} steps completed (${progress.toFixed(1)}%)\n`;
+    output += `Status: ${completed} completed, ${count(PlanStepStatus.IN_PROGRESS)} in progress, `;
+    output += `${count(PlanStepStatus.BLOCKED)} blocked, ${count(PlanStepStatus.NOT_STARTED)} not started\n\n`;
+    output += 'Steps:\n';
+
+    plan.steps.forEach((step, i) => {
+      const mark =
+        PLAN_STEP_STATUS_MARKS[plan.step_statuses[i]] ?? PLAN_STEP_STATUS_MARKS.not_started;
+      output += `${i}. ${mark} ${step}\n`;
+      if (plan.step_notes[i]) {
+        output += `   Notes: ${plan.step_notes[i]}\n`;
+      }
+    });
+    return output;
+  }
+}
@@ -1,4 +1,4 @@
-import { BaseTool } from '@/app/tool/base';
+import { BaseTool, ToolResult } from '@/app/tool/base';
 
 const TERMINATE_DESCRIPTION =
   'Terminate the interaction when the request is met OR if the assistant cannot proceed further with the task. When you have finished all the tasks, call this tool to end the work.';
@@ -16,7 +16,7 @@ export class Terminate extends BaseTool {
       },
     },
   };
-  async execute(status: string): Promise<string> {
-    return `The interaction has been completed with status: ${status}`;
+  async execute({ status }: { status?: string } = {}): Promise<ToolResult> {
+    return new ToolResult({ output: `The interaction has been completed with status: ${status}` });
   }
 }
@@ -1,7 +1,8 @@
 import { type BaseTool, ToolFailure, type ToolResult } from '@/app/tool/base';
 import type { PropertiesOnly } from '@/types/utils';
 import { isInstance } from '@/app/utils/proto';
-import { ToolError } from '@/app/utils/error';
+import { InvalidToolArguments, ToolError } from '@/app/utils/error';
+import { coerce_schema, format_schema_errors, validate_schema } from '@/app/utils/json_schema';
 
 export class ToolCollection {
   tools: BaseTool[];
@@ -19,23 +20,47 @@ export class ToolCollection {
   async excute({
     name,
     tool_input,
+    signal,
   }: {
     name: string;
     tool_input: Record<string, any>;
+    signal?: AbortSignal;
   }): Promise<ToolResult> {
     const tool = this.tool_map.get(name);
     if (!tool) {
       return new ToolFailure({ error: `Tool ${name} not found` });
     }
     try {
-      return await tool.execute(tool_input);
+      return await tool.execute(this.validate_args(name, tool_input), signal);
     } catch (e) {
-      if (isInstance(e, ToolError)) {
-        return new ToolFailure({ error: (e as ToolError).message });
+      // InvalidToolArguments included, isInstance would not match subclasses
+      if (e instanceof ToolError) {
+        return new ToolFailure({ error: e.message });
       }
       throw e;
     }
   }
+  /**
+   * Check the arguments of a call against the parameters schema of its tool,
+   * coercing the type mismatches that are safe to.
+   * @returns The arguments to run the tool with
+   * @throws InvalidToolArguments listing every failing field
+   */
+  validate_args(name: string, tool_input: Record<string, any>): Record<string, any> {
+    const schema = this.tool_map.get(name)?.parameters;
+    if (!schema) {
+      return tool_input;
+    }
+    const args = coerce_schema(schema, tool_input ?? {}) as Record<string, any>;
+    const errors = validate_schema(schema, args);
+    if (errors.length > 0) {
+      throw new InvalidToolArguments(
+        `Invalid arguments for ${name}:\n${format_schema_errors(errors)}`,
+        { errors },
+      );
+    }
+    return args;
+  }
   async excute_all(): Promise<ToolResult[]> {
     const results: ToolResult[] = [];
     for (const tool of this.tools) {
@@ -1,5 +1,5 @@
 import { ReActAgent } from '@/app/agent/react';
-import { NEXT_STEP_PROMPT, SYSTEM_PROMPT } from '@/app/prompt/toolcall';
+import { BUDGET_WRAP_UP_PROMPT, NEXT_STEP_PROMPT, SYSTEM_PROMPT } from '@/app/prompt/toolcall';
 import { ToolCollection } from '@/app/tool/tool_collection';
 import { Terminate } from '@/app/tool/terminate';
 import {
@@ -10,9 +10,21 @@ import {
   ToolCall,
   ToolChoice,
 } from '@/app/schema';
-import type { ToolResult } from '@/app/tool/base';
+import { StructuredResult, type ToolResult } from '@/app/tool/base';
+import { ApprovalPolicy } from '@/app/tool/approval';
 import type { PropertiesOnly } from '@/types/utils';
-import { TokenLimitExceeded } from '@/app/utils/error';
+import {
+  InvalidToolArguments,
+  NoRecordedResponse,
+  TokenBudgetExceeded,
+  TokenLimitExceeded,
+} from '@/app/utils/error';
+import { is_abort_error, throw_if_aborted } from '@/app/utils/abort';
+import { run_with_concurrency } from '@/app/utils/concurrency';
+import { format_schema_errors } from '@/app/utils/json_schema';
+import { repair_json } from '@/app/utils/json_repair';
+import type { AgentOptions, RunOptions } from '@/app/agent/base';
+import type { LLM } from '@/app/llm';
 
 const TOOL_CALL_REQUIRED = 'Tool calls required but none provided';
 
@@ -26,9 +38,23 @@ export class ToolCallAgent extends ReActAgent {
   tool_choices: TOOL_CHOICE_TYPE;
   special_tool_names: string[];
   tool_calls: ToolCall[];
-  private _current_base64_image?: string;
+  private _current_base64_images: Map<string, string> = new Map();
   max_observe?: number | boolean;
   max_steps = 30;
+  // Execute independent tool calls of one turn concurrently
+  parallel_tool_calls: boolean;
+  // Maximum number of tool calls in flight when running in parallel
+  max_concurrency: number;
+  // Gate in front of tool execution, every call is allowed without one
+  approval_policy?: ApprovalPolicy;
+  // Stream LLM responses as token and tool_call_delta events
+  stream: boolean;
+  // Reject malformed tool call arguments instead of repairing them
+  strict_tool_args: boolean;
+  // Value of the last structured result of the run, e.g. from create_chat_completion
+  structured_output?: unknown;
+  // The model was asked to wrap up as the token budget runs out
+  private _wrap_up_requested = false;
 
   constructor({
     available_tools = new ToolCollection({ tools: [new Terminate()] }),
@@ -36,28 +62,91 @@ export class ToolCallAgent extends ReActAgent {
     special_tool_names = ['terminate'],
     tool_calls = [],
     max_observe,
+    parallel_tool_calls = false,
+    max_concurrency = 4,
+    approval_policy,
+    stream = false,
+    strict_tool_args = false,
     ...params
-  }: Partial<PropertiesOnly<ToolCallAgent>>) {
+  }: Partial<PropertiesOnly<ToolCallAgent>> & AgentOptions) {
     super(params);
     this.available_tools = available_tools;
     this.tool_choices = tool_choices;
     this.special_tool_names = special_tool_names;
     this.tool_calls = tool_calls;
     this.max_observe = max_observe;
+    this.parallel_tool_calls = parallel_tool_calls;
+    this.max_concurrency = max_concurrency;
+    this.approval_policy = approval_policy;
+    this.stream = stream;
+    this.strict_tool_args = strict_tool_args;
+  }
+
+  /**
+   * LLM of the next step: the vision one when the messages carry images the
+   * tool use model cannot see.
+   */
+  private _step_llm(): LLM {
+    const vision_llm = this.vision_llm ?? this.llm.vision_llm;
+    if (
+      !vision_llm ||
+      this.llm.capabilities.vision ||
+      !this.messages.some((message) => message.base64_image)
+    ) {
+      return this.llm;
+    }
+    return vision_llm;
   }
 
-  async think(): Promise<boolean> {
+  async think(signal?: AbortSignal): Promise<boolean> {
     if (this.next_step_prompt) {
       const user_msg = Message.user_message(this.next_step_prompt);
       this.messages = [...this.messages, user_msg];
     }
 
+    if (this.token_budget?.exhausted) {
+      return this._finish_on_budget(
+        `used ${this.token_budget.used} of ${this.token_budget.limit} tokens`,
+      );
+    }
+    if (this.token_budget?.nearly_exhausted && !this._wrap_up_requested) {
+      this._wrap_up_requested = true;
+      this.messages = [...this.messages, Message.user_message(BUDGET_WRAP_UP_PROMPT)];
+    }
+
     try {
-      const response = await this.llm.ask_tool({
+      // Shrink the memory first if its compaction strategy asks for it
+      const messages_before = this.messages.length;
+      if (await this.memory.compact(signal)) {
+        this.emit('memory_compacted', {
+          before: messages_before,
+          after: this.messages.length,
+          strategy: this.memory.compaction?.name,
+        });
+      }
+
+      const tools = this.available_tools.to_params();
+      this.emit('llm_request', {
+        messages: this.messages,
+        tools,
+        tool_choice: this.tool_choices,
+      });
+      const response = await this._step_llm().ask_tool({
         messages: this.messages,
         system_msgs: this.system_prompt ? [Message.system_message(this.system_prompt)] : undefined,
-        tools: this.available_tools.to_params(),
+        tools,
         tool_choice: this.tool_choices,
+        stream: this.stream,
+        signal,
+        budget: this.token_budget,
+        on_delta: (delta) => {
+          if (delta.type === 'content') {
+            this.emit('token', { delta: delta.delta });
+          } else {
+            const { index, id, name } = delta;
+            this.emit('tool_call_delta', { index, id, name, delta: delta.delta });
+          }
+        },
       });
 
       // Convert OpenAI tool_calls to our ToolCall type
@@ -76,12 +165,7 @@ export class ToolCallAgent extends ReActAgent {
         );
       const content = response?.content ?? '';
 
-      console.info(`✨ ${this.name}'s thoughts: ${content}`);
-      console.info(`🛠️ ${this.name} selected ${this.tool_calls.length} tools to use`);
-      if (this.tool_calls.length > 0) {
-        console.info(`🧰 Tools being prepared: ${this.tool_calls.map((call) => call.fn.name)}`);
-        console.info(`🔧 Tool arguments: ${this.tool_calls[0].fn.args}`);
-      }
+      this.emit('llm_response', { content, tool_calls: this.tool_calls });
 
       if (!response) {
         throw new Error('No response received from the LLM');
@@ -90,7 +174,7 @@ export class ToolCallAgent extends ReActAgent {
       // Handle different tool_choices modes
       if (this.tool_choices === ToolChoice.NONE) {
         if (this.tool_calls.length > 0) {
-          console.warn(`🤔 Hmm, ${this.name} tried to use tools when they weren't available!`);
+          this.emit('tool_calls_ignored', { tool_calls: this.tool_calls });
         }
         if (content) {
           this.memory.add_message(Message.assistant_message({ content }));
@@ -117,10 +201,22 @@ export class ToolCallAgent extends ReActAgent {
 
       return this.tool_calls.length > 0;
     } catch (e) {
+      // A request missing from a replayed cassette or script fails the run
+      if (is_abort_error(e) || e instanceof NoRecordedResponse) {
+        throw e;
+      }
+      if (
+        e instanceof TokenBudgetExceeded ||
+        (e as any)?.__cause__ instanceof TokenBudgetExceeded
+      ) {
+        return this._finish_on_budget(
+          String(e instanceof TokenBudgetExceeded ? e : (e as any).__cause__),
+        );
+      }
       // Check if this is a RetryError containing TokenLimitExceeded
       if (e instanceof TokenLimitExceeded || (e as any)?.__cause__ instanceof TokenLimitExceeded) {
         const tokenError = e instanceof TokenLimitExceeded ? e : (e as any).__cause__;
-        console.error(`🚨 Token limit error: ${tokenError}`);
+        this.emit('llm_error', { error: String(tokenError), token_limit: true });
         this.memory.add_message(
           Message.assistant_message({
             content: `Maximum token limit reached, cannot continue execution: ${String(tokenError)}`,
@@ -129,7 +225,7 @@ export class ToolCallAgent extends ReActAgent {
         this.state = AgentState.FINISHED;
         return false;
       }
-      console.error(`🚨 Oops! The ${this.name}'s thinking process hit a snag: ${e}`);
+      this.emit('llm_error', { error: String(e), token_limit: false });
       this.memory.add_message(
         Message.assistant_message({
           content: `Error encountered while processing: ${String(e)}`,
@@ -139,7 +235,21 @@ export class ToolCallAgent extends ReActAgent {
     }
   }
 
-  async act(): Promise<string> {
+  /**
+   * End the run without an error once the token budget is spent, keeping what
+   * was done so far.
+   */
+  private _finish_on_budget(reason: string): boolean {
+    this.memory.add_message(
+      Message.assistant_message({
+        content: `Token budget exhausted, stopping with the work done so far: ${reason}`,
+      }),
+    );
+    this.state = AgentState.FINISHED;
+    return false;
+  }
+
+  async act(signal?: AbortSignal): Promise<string> {
     if (this.tool_calls.length === 0) {
       if (this.tool_choices === ToolChoice.REQUIRED) {
         throw new Error(TOOL_CALL_REQUIRED);
@@ -149,34 +259,76 @@ export class ToolCallAgent extends ReActAgent {
       return lastMsg?.content || 'No content or commands to execute';
     }
 
-    const results: string[] = [];
-    for (const command of this.tool_calls) {
-      // Reset base64_image for each tool call
-      this._current_base64_image = undefined;
-
-      let result = await this.execute_tool(command);
+    const commands = this.tool_calls;
+    const results: string[] = new Array(commands.length);
+    let flushed = 0;
+    // Tool messages are appended in call order, whatever order the calls finish in
+    const flush = () => {
+      while (flushed < commands.length && results[flushed] !== undefined) {
+        const command = commands[flushed];
+        this.memory.add_message(
+          Message.tool_message({
+            content: results[flushed],
+            tool_call_id: command.id,
+            name: command.fn.name,
+            base64_image: this._current_base64_images.get(command.id),
+          }),
+        );
+        this._current_base64_images.delete(command.id);
+        flushed += 1;
+      }
+    };
+    const run_one = async (index: number) => {
+      throw_if_aborted(signal);
+      const command = commands[index];
+      let result = await this.execute_tool(command, signal);
 
       if (typeof this.max_observe === 'number' && this.max_observe > 0) {
         result = result.slice(0, this.max_observe);
       }
 
-      console.info(`🎯 Tool '${command.fn.name}' completed its mission! Result: ${result}`);
+      this.emit('tool_call_result', { tool_call: command, result });
+      results[index] = result;
+      flush();
+    };
 
-      // Add tool response to memory
-      const tool_msg = Message.tool_message({
-        content: result,
-        tool_call_id: command.id,
-        name: command.fn.name,
-        base64_image: this._current_base64_image,
-      });
-      this.memory.add_message(tool_msg);
-      results.push(result);
+    try {
+      let batch: number[] = [];
+      const run_batch = async () => {
+        const indexes = batch;
+        batch = [];
+        await run_with_concurrency(
+          indexes.map((index) => () => run_one(index)),
+          this.max_concurrency,
+        );
+      };
+      for (const [index, command] of commands.entries()) {
+        if (this.parallel_tool_calls && !this._is_serial_tool(command.fn.name)) {
+          batch.push(index);
+          continue;
+        }
+        // Serial calls wait for the running batch and run on their own
+        await run_batch();
+        await run_one(index);
+      }
+      await run_batch();
+    } catch (e) {
+      if (is_abort_error(e)) {
+        // Keep the transcript valid by answering interrupted calls, and forget
+        // them so a resumed run does not execute them again
+        for (let index = flushed; index < commands.length; index++) {
+          results[index] ??= `Cmd \`${commands[index].fn.name}\` was cancelled before it completed`;
+        }
+        flush();
+        this.tool_calls = [];
+      }
+      throw e;
     }
 
     return results.join('\n\n');
   }
 
-  async execute_tool(command: ToolCall): Promise<string> {
+  async execute_tool(command: ToolCall, signal?: AbortSignal): Promise<string> {
     if (!command?.fn?.name) {
       return 'Error: Invalid command format';
     }
@@ -187,19 +339,51 @@ export class ToolCallAgent extends ReActAgent {
     }
 
     try {
-      // Parse arguments
-      const args = JSON.parse(command.fn.args || '{}');
+      // Parse arguments, then check them against the schema of the tool
+      let args = this._parse_args(command);
+      args = this.available_tools.validate_args(name, args);
+
+      // Ask the approval policy before running anything
+      if (this.approval_policy) {
+        const decision = await this.approval_policy.review(
+          {
+            agent: this.name,
+            tool_call: command,
+            tool_name: name,
+            server_id: ApprovalPolicy.server_id_of(this.available_tools.get_tool(name)),
+            args,
+          },
+          signal,
+        );
+        this.emit('tool_call_approval', { tool_call: command, decision });
+        if (decision.type === 'reject') {
+          const reason = decision.reason ? `: ${decision.reason}` : '';
+          return `Error: Cmd \`${name}\` was not approved${reason}. Choose another way to proceed.`;
+        }
+        if (decision.type === 'edit') {
+          // Edited arguments get the same check as the ones of the model
+          args = this.available_tools.validate_args(name, decision.args);
+        }
+      }
 
       // Execute the tool
-      console.info(`🔧 Activating tool: '${name}'...`);
-      const result: ToolResult = await this.available_tools.excute({ name, tool_input: args });
+      this.emit('tool_call_start', { tool_call: command });
+      const result: ToolResult = await this.available_tools.excute({
+        name,
+        tool_input: args,
+        signal,
+      });
 
       // Handle special tools
       await this._handle_special_tool(name, result);
 
+      if (result instanceof StructuredResult) {
+        this.structured_output = result.value;
+      }
+
       // Check if result has base64_image
       if (result?.base64_image) {
-        this._current_base64_image = result.base64_image;
+        this._current_base64_images.set(command.id, result.base64_image);
       }
 
       // Format result for display
@@ -209,26 +393,58 @@ export class ToolCallAgent extends ReActAgent {
 
       return observation;
     } catch (e) {
+      if (is_abort_error(e)) {
+        throw e;
+      }
+      if (e instanceof InvalidToolArguments) {
+        this.emit('tool_call_error', {
+          tool_call: command,
+          error: `📝 The arguments for '${name}' don't match its schema:\n${format_schema_errors(e.errors)}`,
+        });
+        // Every failing field is listed so the model can fix the call
+        return `Error: ${e.message}\nFix these arguments and call \`${name}\` again.`;
+      }
       if (e instanceof SyntaxError) {
         const error_msg = `Error parsing arguments for ${name}: Invalid JSON format`;
-        console.error(
-          `📝 Oops! The arguments for '${name}' don't make sense - invalid JSON, arguments:${command.fn.args}`,
-        );
+        this.emit('tool_call_error', {
+          tool_call: command,
+          error: `📝 Oops! The arguments for '${name}' don't make sense - invalid JSON, arguments:${command.fn.args}`,
+        });
         return `Error: ${error_msg}`;
       }
       const error_msg = `⚠️ Tool '${name}' encountered a problem: ${String(e)}`;
-      console.error(error_msg);
+      this.emit('tool_call_error', { tool_call: command, error: error_msg });
       return `Error: ${error_msg}`;
     }
   }
 
+  /**
+   * Arguments of a tool call. Malformed JSON is repaired unless
+   * `strict_tool_args` is set, the history keeping the arguments as sent.
+   * @throws SyntaxError when the arguments cannot be parsed
+   */
+  _parse_args(command: ToolCall): any {
+    const original = command.fn.args || '{}';
+    try {
+      return JSON.parse(original);
+    } catch (e) {
+      if (this.strict_tool_args || !(e instanceof SyntaxError)) {
+        throw e;
+      }
+      const repaired = repair_json(original);
+      const args = JSON.parse(repaired);
+      this.emit('tool_call_repair', { tool_call: command, original, repaired });
+      return args;
+    }
+  }
+
   async _handle_special_tool(name: string, result: any): Promise<void> {
     if (!this._is_special_tool(name)) {
       return;
     }
 
     if (this._should_finish_execution(name, result)) {
-      console.info(`🏁 Special tool '${name}' has completed the task!`);
+      this.emit('special_tool_finished', { name });
       this.state = AgentState.FINISHED;
     }
   }
@@ -237,28 +453,34 @@ export class ToolCallAgent extends ReActAgent {
     return true;
   }
 
+  _is_serial_tool(name: string): boolean {
+    return Boolean(this.available_tools.get_tool(name)?.serial);
+  }
+
   _is_special_tool(name: string): boolean {
     return this.special_tool_names.map((n) => n.toLowerCase()).includes(name.toLowerCase());
   }
 
   async cleanup(): Promise<void> {
-    console.info(`🧹 Cleaning up resources for agent '${this.name}'...`);
+    this.emit('cleanup_start', {});
     for (const [tool_name, tool_instance] of this.available_tools.tool_map) {
       if ('cleanup' in tool_instance && typeof tool_instance.cleanup === 'function') {
         try {
-          console.debug(`🧼 Cleaning up tool: ${tool_name}`);
+          this.emit('tool_cleanup', { tool_name });
           await tool_instance.cleanup();
         } catch (e) {
-          console.error(`🚨 Error cleaning up tool '${tool_name}': ${e}`);
+          this.emit('tool_cleanup_error', { tool_name, error: String(e) });
         }
       }
     }
-    console.info(`✨ Cleanup complete for agent '${this.name}'.`);
+    this.emit('cleanup_end', {});
   }
 
-  async run(request?: string): Promise<string> {
+  async run(request?: string, options?: RunOptions): Promise<string> {
+    this.structured_output = undefined;
+    this._wrap_up_requested = false;
     try {
-      return await super.run(request);
+      return await super.run(request, options);
     } finally {
       await this.cleanup();
     }
@@ -0,0 +1,268 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { ModelPricing } from '@/app/config';
+import type { TokenUsage } from '@/app/llm';
+
+/**
+ * Tokens and cost of one LLM call.
+ */
+export interface UsageRecord {
+  // Position of the call among all recorded calls
+  index: number;
+  timestamp: string;
+  agent?: string;
+  run_id?: string;
+  model: string;
+  // Includes the cached input tokens
+  input_tokens: number;
+  cached_input_tokens: number;
+  completion_tokens: number;
+  // USD
+  cost: number;
+  // The model has no configured price, its cost is counted as 0
+  unpriced: boolean;
+  // The provider reported no usage, tokens were counted locally
+  estimated: boolean;
+  // Model that failed before `model` answered, see LLMSettings.fallbacks
+  fallback_for?: string;
+  // Served from the response cache, the tokens and cost are the ones saved
+  cache_hit: boolean;
+}
+
+export interface UsageTotals {
+  calls: number;
+  input_tokens: number;
+  cached_input_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cost: number;
+}
+
+export interface UsageReport {
+  // Calls still kept, see UsageTracker.max_records
+  calls: UsageRecord[];
+  // Calls that reached a model, cache hits excluded
+  totals: UsageTotals;
+  // What the calls served from the response cache saved
+  cache_hits: UsageTotals;
+  by_agent: Record<string, UsageTotals>;
+  // Calls rolled up out of `calls` are not counted by run
+  by_run: Record<string, UsageTotals>;
+  by_model: Record<string, UsageTotals>;
+}
+
+export type UsageFilter = Partial<Pick<UsageRecord, 'agent' | 'run_id' | 'model'>>;
+
+/**
+ * Where the LLM calls made within `with_usage_scope` are recorded, and who
+ * they are made for.
+ */
+export interface UsageScope {
+  tracker: UsageTracker;
+  agent?: string;
+  run_id?: string;
+}
+
+// Totals of the calls dropped from the records, by agent, model and cache hit
+interface RolledUpUsage extends Pick<UsageRecord, 'agent' | 'model' | 'cache_hit'> {
+  totals: UsageTotals;
+}
+
+const usage_scope = new AsyncLocalStorage<UsageScope>();
+
+/**
+ * Run `fn` with the LLM calls it makes, awaited or not, recorded in the
+ * scope's tracker. An inner scope replaces the outer one.
+ */
+export function with_usage_scope<T>(scope: UsageScope, fn: () => Promise<T>): Promise<T> {
+  return usage_scope.run(scope, fn);
+}
+
+/**
+ * Scope of the current LLM call, none outside `with_usage_scope`.
+ */
+export function current_usage_scope(): UsageScope | undefined {
+  return usage_scope.getStore();
+}
+
+/**
+ * Cost in USD of a call, 0 when the model has no price.
+ */
+export function compute_cost(
+  pricing: ModelPricing | undefined,
+  {
+    input_tokens,
+    cached_input_tokens = 0,
+    completion_tokens,
+  }: { input_tokens: number; cached_input_tokens?: number; completion_tokens: number },
+): number {
+  if (!pricing) {
+    return 0;
+  }
+  const cached = Math.min(cached_input_tokens, input_tokens);
+  return (
+    ((input_tokens - cached) * pricing.input +
+      cached * (pricing.cached_input ?? pricing.input) +
+      completion_tokens * pricing.output) /
+    1_000_000
+  );
+}
+
+function empty_totals(): UsageTotals {
+  return {
+    calls: 0,
+    input_tokens: 0,
+    cached_input_tokens: 0,
+    completion_tokens: 0,
+    total_tokens: 0,
+    cost: 0,
+  };
+}
+
+function add_to_totals(totals: UsageTotals, record: UsageRecord): void {
+  totals.calls += 1;
+  totals.input_tokens += record.input_tokens;
+  totals.cached_input_tokens += record.cached_input_tokens;
+  totals.completion_tokens += record.completion_tokens;
+  totals.total_tokens += record.input_tokens + record.completion_tokens;
+  totals.cost += record.cost;
+}
+
+function merge_totals(totals: UsageTotals, other: UsageTotals): void {
+  totals.calls += other.calls;
+  totals.input_tokens += other.input_tokens;
+  totals.cached_input_tokens += other.cached_input_tokens;
+  totals.completion_tokens += other.completion_tokens;
+  totals.total_tokens += other.total_tokens;
+  totals.cost += other.cost;
+}
+
+/**
+ * Keeps the usage of the LLM calls made by agents and flows, to report
+ * tokens and cost per agent, per run and per model.
+ *
+ * Only the last `max_records` calls are kept one by one, older ones are
+ * rolled up into totals by agent and model so a long-lived process does not
+ * grow without bound.
+ */
+export class UsageTracker {
+  private static instance: UsageTracker | null = null;
+  records: UsageRecord[] = [];
+  max_records: number;
+  private _rolled_up: Map<string, RolledUpUsage> = new Map();
+  private _count = 0;
+
+  constructor({ max_records = 10_000 }: { max_records?: number } = {}) {
+    this.max_records = max_records;
+  }
+
+  static getInstance(): UsageTracker {
+    if (!UsageTracker.instance) {
+      UsageTracker.instance = new UsageTracker();
+    }
+    return UsageTracker.instance;
+  }
+
+  /**
+   * Record a call reported by the `token_usage` event of an LLM. LLMs record
+   * their calls themselves, in the tracker of the current usage scope.
+   */
+  record(
+    usage: TokenUsage,
+    { agent, run_id }: { agent?: string; run_id?: string } = {},
+  ): UsageRecord {
+    const record: UsageRecord = {
+      index: this._count++,
+      timestamp: new Date().toISOString(),
+      agent,
+      run_id,
+      model: usage.model,
+      input_tokens: usage.input_tokens,
+      cached_input_tokens: usage.cached_input_tokens,
+      completion_tokens: usage.completion_tokens,
+      cost: usage.cost,
+      unpriced: usage.unpriced,
+      estimated: usage.estimated,
+      fallback_for: usage.fallback_for,
+      cache_hit: Boolean(usage.cache_hit),
+    };
+    this.records.push(record);
+    if (this.records.length > this.max_records) {
+      this._roll_up(this.records.splice(0, this.records.length - this.max_records));
+    }
+    return record;
+  }
+
+  /**
+   * Usage of the calls matching the filter, each call listed with its tokens
+   * and cost, then summed overall and by agent, run and model. Cache hits
+   * cost nothing and are summed apart.
+   */
+  report(filter: UsageFilter = {}): UsageReport {
+    const report: UsageReport = {
+      calls: [],
+      totals: empty_totals(),
+      cache_hits: empty_totals(),
+      by_agent: {},
+      by_run: {},
+      by_model: {},
+    };
+    for (const record of this.records) {
+      if (
+        (filter.agent !== undefined && record.agent !== filter.agent) ||
+        (filter.run_id !== undefined && record.run_id !== filter.run_id) ||
+        (filter.model !== undefined && record.model !== filter.model)
+      ) {
+        continue;
+      }
+      report.calls.push(record);
+      if (record.cache_hit) {
+        add_to_totals(report.cache_hits, record);
+        continue;
+      }
+      add_to_totals(report.totals, record);
+      add_to_totals((report.by_agent[record.agent ?? ''] ??= empty_totals()), record);
+      add_to_totals((report.by_run[record.run_id ?? ''] ??= empty_totals()), record);
+      add_to_totals((report.by_model[record.model] ??= empty_totals()), record);
+    }
+    if (filter.run_id !== undefined) {
+      return report;
+    }
+    for (const rolled_up of this._rolled_up.values()) {
+      if (
+        (filter.agent !== undefined && rolled_up.agent !== filter.agent) ||
+        (filter.model !== undefined && rolled_up.model !== filter.model)
+      ) {
+        continue;
+      }
+      if (rolled_up.cache_hit) {
+        merge_totals(report.cache_hits, rolled_up.totals);
+        continue;
+      }
+      merge_totals(report.totals, rolled_up.totals);
+      merge_totals((report.by_agent[rolled_up.agent ?? ''] ??= empty_totals()), rolled_up.totals);
+      merge_totals((report.by_model[rolled_up.model] ??= empty_totals()), rolled_up.totals);
+    }
+    return report;
+  }
+
+  reset(): void {
+    this.records = [];
+    this._rolled_up.clear();
+    this._count = 0;
+  }
+
+  private _roll_up(records: UsageRecord[]): void {
+    for (const record of records) {
+      const key = JSON.stringify([record.agent, record.model, record.cache_hit]);
+      if (!this._rolled_up.has(key)) {
+        this._rolled_up.set(key, {
+          agent: record.agent,
+          model: record.model,
+          cache_hit: record.cache_hit,
+          totals: empty_totals(),
+        });
+      }
+      add_to_totals(this._rolled_up.get(key)!.totals, record);
+    }
+  }
+}
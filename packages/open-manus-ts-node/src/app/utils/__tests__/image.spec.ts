@@ -0,0 +1,90 @@
+import { describe, expect, test } from 'vitest';
+import { data_url_dimensions, image_dimensions } from '@/app/utils/image';
+
+function bytes(...parts: Array<string | number[]>): Uint8Array {
+  return Buffer.concat(
+    parts.map((part) =>
+      typeof part === 'string' ? Buffer.from(part, 'latin1') : Buffer.from(part),
+    ),
+  );
+}
+
+// Signature and IHDR chunk of a 640x480 PNG
+const PNG = bytes(
+  [0x89],
+  'PNG\r\n\x1a\n',
+  [0, 0, 0, 13],
+  'IHDR',
+  [0, 0, 0x02, 0x80, 0, 0, 0x01, 0xe0, 8, 6, 0, 0, 0],
+);
+
+function jpeg(app_length = 16): Uint8Array {
+  return bytes(
+    [0xff, 0xd8],
+    // APP0 segment, its length counting the two length bytes
+    [0xff, 0xe0, app_length >> 8, app_length & 0xff],
+    new Array(app_length - 2).fill(0),
+    // Baseline frame header of a 1024x768 image: precision, height, width
+    [0xff, 0xc0, 0, 17, 8, 0x03, 0x00, 0x04, 0x00, 3],
+    new Array(15).fill(0),
+  );
+}
+
+function webp(chunk: string, payload: number[]): Uint8Array {
+  return bytes('RIFF', [0, 0, 0, 0], 'WEBP', chunk, [0, 0, 0, 0], payload, new Array(16).fill(0));
+}
+
+const data_url = (mime: string, data: Uint8Array) =>
+  `data:${mime};base64,${Buffer.from(data).toString('base64')}`;
+
+describe('image_dimensions', () => {
+  test('reads the IHDR chunk of a PNG', () => {
+    expect(image_dimensions(PNG)).toEqual({ width: 640, height: 480 });
+  });
+
+  test('reads the frame header of a JPEG after its other segments', () => {
+    expect(image_dimensions(jpeg())).toEqual({ width: 1024, height: 768 });
+  });
+
+  test('reads the three kinds of WebP', () => {
+    // Lossy: frame tag and start code, then 14-bit width and height
+    const lossy = webp('VP8 ', [0, 0, 0, 0x9d, 0x01, 0x2a, 0x20, 0x03, 0x58, 0x02]);
+    expect(image_dimensions(lossy)).toEqual({ width: 800, height: 600 });
+    // Lossless: signature, then width - 1 and height - 1 on 14 bits each
+    const bits = 399 | (299 << 14);
+    const lossless = webp('VP8L', [
+      0x2f,
+      bits & 0xff,
+      (bits >> 8) & 0xff,
+      (bits >> 16) & 0xff,
+      bits >>> 24,
+    ]);
+    expect(image_dimensions(lossless)).toEqual({ width: 400, height: 300 });
+    // Extended: flags, then width - 1 and height - 1 on 24 bits each
+    const extended = webp('VP8X', [0, 0, 0, 0, 0x7f, 0x07, 0, 0x37, 0x04, 0]);
+    expect(image_dimensions(extended)).toEqual({ width: 1920, height: 1080 });
+  });
+
+  test('has no dimensions for other or truncated data', () => {
+    expect(image_dimensions(bytes('GIF89a', new Array(32).fill(0)))).toBeUndefined();
+    expect(image_dimensions(PNG.subarray(0, 20))).toBeUndefined();
+    expect(image_dimensions(jpeg().subarray(0, 24))).toBeUndefined();
+  });
+});
+
+describe('data_url_dimensions', () => {
+  test('reads the image of a base64 data URL', () => {
+    expect(data_url_dimensions(data_url('image/png', PNG))).toEqual({ width: 640, height: 480 });
+  });
+
+  test('has no dimensions for remote URLs', () => {
+    expect(data_url_dimensions('https://example.com/image.png')).toBeUndefined();
+  });
+
+  test('only decodes the start of the data', () => {
+    // Large metadata pushes the frame header past the decoded bytes
+    const image = jpeg(32 * 1024);
+    expect(image_dimensions(image)).toEqual({ width: 1024, height: 768 });
+    expect(data_url_dimensions(data_url('image/jpeg', image))).toBeUndefined();
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, test } from 'vitest';
+import { repair_json } from '@/app/utils/json_repair';
+
+const parse_repaired = (text: string) => JSON.parse(repair_json(text));
+
+describe('repair_json', () => {
+  test('returns valid JSON unchanged', () => {
+    const text = '{"a": [1, 2.5, -3e2], "b": {"c": null, "d": "x, y: [z]"}, "e": true}';
+    expect(repair_json(text)).toBe(text);
+  });
+
+  test('strips markdown code fences', () => {
+    expect(parse_repaired('```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+    expect(parse_repaired('```\n[1]\n```')).toEqual([1]);
+  });
+
+  test('drops trailing commas', () => {
+    expect(parse_repaired('{"a": [1, 2,], "b": 3,}')).toEqual({ a: [1, 2], b: 3 });
+  });
+
+  test('quotes single-quoted strings and unquoted keys', () => {
+    expect(parse_repaired("{path: '/tmp/a b', 'mode': 'it\\'s'}")).toEqual({
+      path: '/tmp/a b',
+      mode: "it's",
+    });
+    expect(parse_repaired(`{'text': 'say "hi"'}`)).toEqual({ text: 'say "hi"' });
+  });
+
+  test('escapes control characters inside strings', () => {
+    expect(parse_repaired('{"code": "line 1\nline 2\tend\u0001"}')).toEqual({
+      code: 'line 1\nline 2\tend\u0001',
+    });
+  });
+
+  test("converts Python's literals", () => {
+    expect(parse_repaired('{"a": True, "b": False, "c": None}')).toEqual({
+      a: true,
+      b: false,
+      c: null,
+    });
+  });
+
+  test('closes truncated values, dropping the member cut short', () => {
+    expect(parse_repaired('{"a": 1, "b": [1, 2')).toEqual({ a: 1, b: [1, 2] });
+    expect(parse_repaired('{"a": 1, "b": "unfinished')).toEqual({ a: 1 });
+    expect(parse_repaired('{"a": 1, "b":')).toEqual({ a: 1 });
+    expect(parse_repaired('{"a": {"b": 1, "c"')).toEqual({ a: { b: 1 } });
+  });
+
+  test('leaves what it cannot repair for the parser to reject', () => {
+    expect(() => parse_repaired('{"a": undefined}')).toThrow(SyntaxError);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, expect, test } from 'vitest';
+import {
+  coerce_schema,
+  format_schema_errors,
+  json_type_of,
+  validate_schema,
+} from '@/app/utils/json_schema';
+
+describe('json_type_of', () => {
+  test('names values as JSON Schema does', () => {
+    expect([null, [], 1, 1.5, 'a', true, {}].map(json_type_of)).toEqual([
+      'null',
+      'array',
+      'integer',
+      'number',
+      'string',
+      'boolean',
+      'object',
+    ]);
+  });
+});
+
+describe('validate_schema', () => {
+  const schema = {
+    type: 'object',
+    properties: {
+      command: { type: 'string', enum: ['run', 'stop'] },
+      timeout: { type: 'integer', minimum: 1 },
+      tags: { type: 'array', items: { type: 'string', pattern: '^[a-z]+$' }, maxItems: 2 },
+    },
+    required: ['command'],
+    additionalProperties: false,
+  };
+
+  test('accepts a valid value', () => {
+    expect(validate_schema(schema, { command: 'run', timeout: 5, tags: ['a'] })).toEqual([]);
+  });
+
+  test('reports every failing field with its path', () => {
+    const errors = validate_schema(schema, { timeout: 0, tags: ['a', 'B', 'c'], extra: 1 });
+    expect(format_schema_errors(errors).split('\n')).toEqual([
+      "$: unexpected property 'extra'",
+      '$.command: is required',
+      '$.timeout: must be >= 1',
+      '$.tags: must have at most 2 items',
+      '$.tags[1]: must match pattern ^[a-z]+$',
+    ]);
+  });
+
+  test('accepts an integer where a number is expected', () => {
+    expect(validate_schema({ type: 'number' }, 3)).toEqual([]);
+    expect(validate_schema({ type: 'integer' }, 3.5)).toEqual([
+      { path: '$', message: 'expected integer, got number' },
+    ]);
+  });
+
+  test('checks anyOf and oneOf branches', () => {
+    const any_of = { anyOf: [{ type: 'string' }, { type: 'null' }] };
+    expect(validate_schema(any_of, null)).toEqual([]);
+    expect(validate_schema(any_of, 1)).toHaveLength(1);
+    const one_of = { oneOf: [{ type: 'number' }, { type: 'integer' }] };
+    expect(validate_schema(one_of, 1)[0].message).toBe('matches more than one schema');
+  });
+
+  test('does not take inherited keys for properties', () => {
+    const strict = { type: 'object', properties: {}, additionalProperties: false };
+    expect(validate_schema(strict, { toString: 'x' })).toEqual([
+      { path: '$', message: "unexpected property 'toString'" },
+    ]);
+  });
+
+  test('reports an invalid pattern as an error instead of throwing', () => {
+    expect(validate_schema({ type: 'string', pattern: '(' }, 'a')).toEqual([
+      { path: '$', message: 'cannot be checked, the schema pattern ( is invalid' },
+    ]);
+  });
+});
+
+describe('coerce_schema', () => {
+  test('converts the values models get the type of wrong', () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        count: { type: 'integer' },
+        ratio: { type: 'number' },
+        force: { type: 'boolean' },
+        name: { type: 'string' },
+        options: { type: 'object' },
+        paths: { type: 'array', items: { type: 'integer' } },
+      },
+    };
+    const value = {
+      count: '3',
+      ratio: ' 0.5 ',
+      force: 'false',
+      name: 42,
+      options: '{"a": 1}',
+      paths: '["1", 2]',
+    };
+    expect(coerce_schema(schema, value)).toEqual({
+      count: 3,
+      ratio: 0.5,
+      force: false,
+      name: '42',
+      options: { a: 1 },
+      paths: [1, 2],
+    });
+    expect(value.count).toBe('3');
+  });
+
+  test('leaves values it cannot convert safely', () => {
+    expect(coerce_schema({ type: 'integer' }, '1.5')).toBe('1.5');
+    expect(coerce_schema({ type: 'boolean' }, 'yes')).toBe('yes');
+    expect(coerce_schema({ type: 'array' }, '{"a": 1}')).toBe('{"a": 1}');
+    expect(coerce_schema({ type: 'string' }, null)).toBeNull();
+  });
+
+  test('coerces additional properties with their schema', () => {
+    const schema = { type: 'object', properties: {}, additionalProperties: { type: 'number' } };
+    expect(coerce_schema(schema, { constructor: '3', other: '4' })).toEqual({
+      constructor: 3,
+      other: 4,
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import { APIUserAbortError } from 'openai';
+import { AbortError } from '@/app/utils/error';
+
+/**
+ * Whether an error was caused by cancellation, regardless of which layer
+ * (our own code, the OpenAI SDK, the MCP SDK or fetch) raised it.
+ */
+export function is_abort_error(e: unknown): boolean {
+  return (
+    e instanceof AbortError ||
+    e instanceof APIUserAbortError ||
+    (e instanceof Error && e.name === 'AbortError')
+  );
+}
+
+/**
+ * Throw an AbortError if the signal has been aborted.
+ */
+export function throw_if_aborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw to_abort_error(signal.reason);
+  }
+}
+
+/**
+ * Normalize whatever a cancelled operation threw into our AbortError.
+ */
+export function to_abort_error(reason?: unknown): AbortError {
+  if (reason instanceof AbortError) {
+    return reason;
+  }
+  const message = reason instanceof Error ? reason.message : 'The operation was aborted';
+  return new AbortError(message, { cause: reason });
+}
+
+/**
+ * Sleep for the given time, waking up early with an AbortError on abort.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(to_abort_error(signal.reason));
+      return;
+    }
+    const on_abort = () => {
+      clearTimeout(timer);
+      reject(to_abort_error(signal?.reason));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', on_abort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', on_abort, { once: true });
+  });
+}
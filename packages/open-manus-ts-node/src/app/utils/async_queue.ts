@@ -0,0 +1,87 @@
+interface Waiter<T> {
+  resolve: (result: IteratorResult<T>) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Push-based async iterator: producers `push` items, a single consumer drains
+ * them with `for await`. Items pushed before the consumer asks are buffered.
+ */
+export class AsyncQueue<T> implements AsyncIterableIterator<T> {
+  private _buffer: T[] = [];
+  private _waiters: Waiter<T>[] = [];
+  private _closed = false;
+  private _error?: { reason: unknown };
+
+  /**
+   * @param on_return Called when the consumer stops iterating early.
+   */
+  constructor(private _on_return?: () => void) {}
+
+  get closed(): boolean {
+    return this._closed;
+  }
+
+  push(item: T): void {
+    if (this._closed) return;
+    const waiter = this._waiters.shift();
+    if (waiter) {
+      waiter.resolve({ value: item, done: false });
+    } else {
+      this._buffer.push(item);
+    }
+  }
+
+  /**
+   * End the stream once buffered items have been consumed.
+   */
+  close(): void {
+    if (this._closed) return;
+    this._closed = true;
+    for (const waiter of this._waiters.splice(0)) {
+      waiter.resolve({ value: undefined, done: true });
+    }
+  }
+
+  /**
+   * End the stream with an error raised after buffered items are consumed.
+   */
+  fail(reason: unknown): void {
+    if (this._closed) return;
+    this._error = { reason };
+    this._closed = true;
+    for (const waiter of this._waiters.splice(0)) {
+      waiter.reject(reason);
+    }
+  }
+
+  next(): Promise<IteratorResult<T>> {
+    if (this._buffer.length > 0) {
+      return Promise.resolve({ value: this._buffer.shift()!, done: false });
+    }
+    if (this._error) {
+      const { reason } = this._error;
+      this._error = undefined;
+      return Promise.reject(reason);
+    }
+    if (this._closed) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+    return new Promise((resolve, reject) => this._waiters.push({ resolve, reject }));
+  }
+
+  return(): Promise<IteratorResult<T>> {
+    const stopped_early = !this._closed;
+    this._buffer = [];
+    this._error = undefined;
+    this.close();
+    if (stopped_early) {
+      this._on_return?.();
+    }
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+    return this;
+  }
+}
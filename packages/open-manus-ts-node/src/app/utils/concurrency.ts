@@ -0,0 +1,31 @@
+/**
+ * Run tasks with at most `limit` of them in flight, starting them in order.
+ *
+ * Unlike `Promise.all`, this always waits for every started task to settle.
+ * Once a task fails no new task is started, and the first error is rethrown
+ * after the in-flight ones are done.
+ */
+export async function run_with_concurrency(
+  tasks: Array<() => Promise<void>>,
+  limit: number,
+): Promise<void> {
+  let next = 0;
+  let failure: { error: unknown } | undefined;
+
+  const worker = async () => {
+    while (next < tasks.length && !failure) {
+      const task = tasks[next++];
+      try {
+        await task();
+      } catch (e) {
+        failure ??= { error: e };
+      }
+    }
+  };
+
+  const workers = Math.max(1, Math.min(limit, tasks.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  if (failure) {
+    throw failure.error;
+  }
+}
@@ -0,0 +1,69 @@
+import { describe, expect, test, vi } from 'vitest';
+import { is_transient } from '@/app/provider/errors';
+import { backoff_delay, retry } from '@/app/utils/decorators/retry';
+import { AbortError, ProviderError, RetryError, ValueError } from '@/app/utils/error';
+
+class Flaky {
+  calls = 0;
+  constructor(private errors: unknown[]) {}
+
+  @retry({ stop: 3, wait: 0, retry: is_transient })
+  async call(_params: { signal?: AbortSignal } = {}): Promise<string> {
+    this.calls++;
+    const error = this.errors.shift();
+    if (error) {
+      throw error;
+    }
+    return 'ok';
+  }
+}
+
+describe('retry', () => {
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+  test('retries transient errors until the call succeeds', async () => {
+    const flaky = new Flaky([new ProviderError('busy', { status: 503 })]);
+    await expect(flaky.call()).resolves.toBe('ok');
+    expect(flaky.calls).toBe(2);
+  });
+
+  test('throws permanent errors without retrying', async () => {
+    const error = new ValueError('Invalid role');
+    const flaky = new Flaky([error]);
+    await expect(flaky.call()).rejects.toBe(error);
+    expect(flaky.calls).toBe(1);
+  });
+
+  test('wraps the last error once out of attempts', async () => {
+    const errors = [1, 2, 3].map(() => new ProviderError('busy', { status: 429 }));
+    const flaky = new Flaky([...errors]);
+    const error = await flaky.call().catch((e) => e);
+    expect(error).toBeInstanceOf(RetryError);
+    expect(error.attempts).toBe(3);
+    expect(error.__cause__).toBe(errors[2]);
+    expect(flaky.calls).toBe(3);
+  });
+
+  test('stops retrying once aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const flaky = new Flaky([new ProviderError('busy', { status: 503 })]);
+    await expect(flaky.call({ signal: controller.signal })).rejects.toBeInstanceOf(AbortError);
+    expect(flaky.calls).toBe(1);
+  });
+});
+
+describe('backoff_delay', () => {
+  test('grows by the multiplier up to the longest wait', () => {
+    const policy = { wait: 1000, multiplier: 2, max_wait: 5000, jitter: 0 };
+    expect([1, 2, 3, 4].map((attempt) => backoff_delay(policy, attempt))).toEqual([
+      1000, 2000, 4000, 5000,
+    ]);
+  });
+
+  test('draws a fraction of the wait at random', () => {
+    const delay = backoff_delay({ wait: 1000, multiplier: 1, max_wait: 1000, jitter: 0.5 }, 1);
+    expect(delay).toBeGreaterThan(500);
+    expect(delay).toBeLessThanOrEqual(1000);
+  });
+});
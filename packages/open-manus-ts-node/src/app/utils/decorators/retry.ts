@@ -1,36 +1,86 @@
+import { is_abort_error, sleep, throw_if_aborted } from '@/app/utils/abort';
+import { RetryError } from '@/app/utils/error';
+
+export interface RetryPolicy {
+  // Attempts in total, the first one included
+  stop: number;
+  // Wait before the first retry, in ms
+  wait: number;
+  // Factor the wait is multiplied by after each retry
+  multiplier: number;
+  // Longest wait in ms, waits the error asks for excepted
+  max_wait: number;
+  // Fraction of each wait drawn at random, so clients failing together do not retry together
+  jitter: number;
+}
+
+/**
+ * Wait in ms before retry number `attempt`, starting at 1.
+ */
+export function backoff_delay(
+  { wait, multiplier, max_wait, jitter }: Omit<RetryPolicy, 'stop'>,
+  attempt: number,
+): number {
+  const delay = Math.min(wait * multiplier ** (attempt - 1), max_wait);
+  return delay * (1 - jitter * Math.random());
+}
+
+/**
+ * Retry an async method, waiting longer after each failed attempt.
+ *
+ * If the first argument of the decorated method carries an AbortSignal
+ * (`{ signal }`), aborting it stops retrying and interrupts the wait.
+ * Errors `retry` rejects are thrown as they are, while the last error of a
+ * call out of attempts is wrapped in a RetryError.
+ */
 export function retry({
   stop = 1,
   wait = 60,
+  multiplier = 1,
+  max_wait = Infinity,
+  jitter = 0,
   retry = () => true,
-}: {
-  stop?: number;
-  wait?: number;
+  retry_after = () => undefined,
+  policy,
+}: Partial<RetryPolicy> & {
   retry?: (error: any) => boolean;
+  // Wait in ms the error asks for, such as a Retry-After header, used instead of the backoff
+  retry_after?: (error: any) => number | undefined;
+  // Policy of the instance the method is called on, overriding the options above
+  policy?: (self: any) => Partial<RetryPolicy> | undefined;
 }) {
   return function (_target: any, propertyName: string, descriptor: PropertyDescriptor) {
     const originalMethod = descriptor.value;
 
     descriptor.value = async function (...args: any[]) {
+      const signal: AbortSignal | undefined = args[0]?.signal;
+      const options = { stop, wait, multiplier, max_wait, jitter, ...policy?.(this) };
       let attempts = 0;
-      let lastError: any;
 
-      while (attempts < stop) {
+      while (true) {
         try {
           return await originalMethod.apply(this, args);
         } catch (e) {
-          lastError = e;
           attempts++;
-          if (attempts >= stop || !retry(e)) {
-            throw lastError;
+          throw_if_aborted(signal);
+          if (is_abort_error(e) || !retry(e)) {
+            throw e;
+          }
+          if (attempts >= options.stop) {
+            throw new RetryError(
+              `${propertyName} failed after ${attempts} attempts: ${(e as Error)?.message ?? e}`,
+              { cause: e, attempts },
+            );
           }
-          console.log(`Retry ${propertyName} ${attempts}/${stop} after ${wait / 1000} s`);
-          if (wait > 0) {
-            await new Promise((r) => setTimeout(r, wait));
+          const delay = retry_after(e) ?? backoff_delay(options, attempts);
+          console.log(
+            `Retry ${propertyName} ${attempts}/${options.stop} after ${(delay / 1000).toFixed(1)} s`,
+          );
+          if (delay > 0) {
+            await sleep(delay, signal);
           }
         }
       }
-
-      throw lastError;
     };
 
     return descriptor;
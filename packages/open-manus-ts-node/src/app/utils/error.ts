@@ -1,5 +1,45 @@
+import type { SchemaError } from '@/app/utils/json_schema';
+
 export class ValueError extends Error {}
+// The model lacks a capability the request needs, see CapabilityRegistry
+export class UnsupportedCapability extends ValueError {}
 
 export class ToolError extends Error {}
+// Arguments of a tool call not matching the parameters schema of the tool
+export class InvalidToolArguments extends ToolError {
+  errors: SchemaError[];
+  constructor(message: string, { errors }: { errors: SchemaError[] }) {
+    super(message);
+    this.errors = errors;
+  }
+}
 export class OpenManusError extends Error {}
 export class TokenLimitExceeded extends OpenManusError {}
+// The cumulative token budget of a run or session is spent
+export class TokenBudgetExceeded extends TokenLimitExceeded {}
+export class InvalidTranscript extends OpenManusError {}
+// A replayed or scripted LLM got a request it has no response for
+export class NoRecordedResponse extends OpenManusError {}
+export class AbortError extends OpenManusError {
+  name = 'AbortError';
+}
+export class ProviderError extends OpenManusError {
+  // HTTP status returned by the API, if any
+  status?: number;
+  headers?: Headers;
+  constructor(message: string, { status, headers }: { status?: number; headers?: Headers } = {}) {
+    super(message);
+    this.status = status;
+    this.headers = headers;
+  }
+}
+// A call still failing after its last retry, `__cause__` is the last error
+export class RetryError extends OpenManusError {
+  __cause__: unknown;
+  attempts: number;
+  constructor(message: string, { cause, attempts }: { cause: unknown; attempts: number }) {
+    super(message, { cause });
+    this.__cause__ = cause;
+    this.attempts = attempts;
+  }
+}
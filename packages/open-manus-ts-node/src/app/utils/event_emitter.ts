@@ -0,0 +1,82 @@
+export type EventListener<T> = (payload: T) => void | Promise<void>;
+export type AnyEventListener<Events> = <K extends keyof Events>(
+  event: K,
+  payload: Events[K],
+) => void | Promise<void>;
+
+/**
+ * Minimal typed event emitter.
+ *
+ * Listeners are isolated from the emitter: a throwing (or rejecting) listener
+ * is logged and never breaks the code path that emitted the event.
+ */
+export class TypedEventEmitter<Events extends Record<string, any>> {
+  private _listeners: Map<keyof Events, Set<EventListener<any>>> = new Map();
+  private _any_listeners: Set<AnyEventListener<Events>> = new Set();
+
+  /**
+   * Subscribe to an event.
+   * @returns A function that removes the listener.
+   */
+  on<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): () => void {
+    if (!this._listeners.has(event)) {
+      this._listeners.set(event, new Set());
+    }
+    this._listeners.get(event)!.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Subscribe to a single occurrence of an event.
+   */
+  once<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): () => void {
+    const off = this.on(event, (payload) => {
+      off();
+      return listener(payload);
+    });
+    return off;
+  }
+
+  /**
+   * Subscribe to every event emitted.
+   */
+  on_any(listener: AnyEventListener<Events>): () => void {
+    this._any_listeners.add(listener);
+    return () => {
+      this._any_listeners.delete(listener);
+    };
+  }
+
+  off<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): void {
+    this._listeners.get(event)?.delete(listener);
+  }
+
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    for (const listener of Array.from(this._listeners.get(event) ?? [])) {
+      this._invoke(event, () => listener(payload));
+    }
+    for (const listener of Array.from(this._any_listeners)) {
+      this._invoke(event, () => listener(event, payload));
+    }
+  }
+
+  listener_count(event: keyof Events): number {
+    return (this._listeners.get(event)?.size ?? 0) + this._any_listeners.size;
+  }
+
+  remove_all_listeners(): void {
+    this._listeners.clear();
+    this._any_listeners.clear();
+  }
+
+  private _invoke(event: keyof Events, fn: () => void | Promise<void>): void {
+    try {
+      const result = fn();
+      if (result instanceof Promise) {
+        result.catch((e) => console.error(`Listener for '${String(event)}' failed: ${e}`));
+      }
+    } catch (e) {
+      console.error(`Listener for '${String(event)}' failed: ${e}`);
+    }
+  }
+}
@@ -0,0 +1,23 @@
+import { createHash } from 'node:crypto';
+
+/**
+ * JSON with object keys sorted, so equal values serialize the same.
+ */
+export function stable_stringify(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(
+          Object.keys(v)
+            .sort()
+            .map((k) => [k, v[k]]),
+        )
+      : v,
+  );
+}
+
+/**
+ * sha256 of the stable JSON of a value, in hex.
+ */
+export function hash_json(value: unknown): string {
+  return createHash('sha256').update(stable_stringify(value)).digest('hex');
+}
@@ -0,0 +1,103 @@
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+// Bytes of an image decoded to find its dimensions: the whole header of a PNG
+// or WebP, and of a JPEG unless metadata comes before its frame header
+const HEADER_BYTES = 16 * 1024;
+
+// JPEG start-of-frame markers, the ones holding the dimensions
+const JPEG_SOF_MARKERS = new Set([
+  0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf,
+]);
+
+function ascii(data: Uint8Array, start: number, end: number): string {
+  return String.fromCharCode(...data.subarray(start, end));
+}
+
+function png_dimensions(data: Uint8Array, view: DataView): ImageDimensions | undefined {
+  if (data.length < 24 || ascii(data, 1, 4) !== 'PNG' || ascii(data, 12, 16) !== 'IHDR') {
+    return undefined;
+  }
+  return { width: view.getUint32(16), height: view.getUint32(20) };
+}
+
+function jpeg_dimensions(data: Uint8Array, view: DataView): ImageDimensions | undefined {
+  if (data[0] !== 0xff || data[1] !== 0xd8) {
+    return undefined;
+  }
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) {
+      return undefined;
+    }
+    const marker = data[offset + 1];
+    // Fill bytes and markers without a segment
+    if (marker === 0xff) {
+      offset += 1;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      offset += 2;
+      continue;
+    }
+    if (JPEG_SOF_MARKERS.has(marker)) {
+      return { height: view.getUint16(offset + 5), width: view.getUint16(offset + 7) };
+    }
+    offset += 2 + view.getUint16(offset + 2);
+  }
+  return undefined;
+}
+
+function webp_dimensions(data: Uint8Array, view: DataView): ImageDimensions | undefined {
+  if (data.length < 30 || ascii(data, 0, 4) !== 'RIFF' || ascii(data, 8, 12) !== 'WEBP') {
+    return undefined;
+  }
+  switch (ascii(data, 12, 16)) {
+    case 'VP8 ':
+      return {
+        width: view.getUint16(26, true) & 0x3fff,
+        height: view.getUint16(28, true) & 0x3fff,
+      };
+    case 'VP8L':
+      return {
+        width: 1 + (((data[22] & 0x3f) << 8) | data[21]),
+        height: 1 + (((data[24] & 0x0f) << 10) | (data[23] << 2) | ((data[22] & 0xc0) >> 6)),
+      };
+    case 'VP8X':
+      return {
+        width: 1 + (data[24] | (data[25] << 8) | (data[26] << 16)),
+        height: 1 + (data[27] | (data[28] << 8) | (data[29] << 16)),
+      };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Width and height of a PNG, JPEG or WebP image, read from its header.
+ */
+export function image_dimensions(data: Uint8Array): ImageDimensions | undefined {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  try {
+    return png_dimensions(data, view) ?? jpeg_dimensions(data, view) ?? webp_dimensions(data, view);
+  } catch {
+    // Truncated header
+    return undefined;
+  }
+}
+
+/**
+ * Dimensions of the image in a base64 `data:` URL, none for remote URLs.
+ * Only the start of the data is decoded, images can be megabytes large.
+ */
+export function data_url_dimensions(url: string): ImageDimensions | undefined {
+  if (!url.startsWith('data:')) {
+    return undefined;
+  }
+  const start = url.indexOf(',') + 1;
+  // 4 base64 characters per 3 bytes
+  const header = url.slice(start, start + Math.ceil(HEADER_BYTES / 3) * 4);
+  return image_dimensions(Buffer.from(header, 'base64'));
+}
@@ -0,0 +1,181 @@
+interface Container {
+  close: '}' | ']';
+  // Index of the output where the current member starts, its comma included
+  member_start: number;
+  // Inside an object, the key of the current member is followed by its colon
+  after_colon: boolean;
+  // The current member has a complete value
+  complete: boolean;
+}
+
+const PYTHON_LITERALS: Record<string, string> = { True: 'true', False: 'false', None: 'null' };
+
+const NUMBER_PATTERN = /^-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?$/;
+
+// Run of characters outside strings that is not punctuation
+const BARE_WORD = /[^\s,:[\]{}"']+/y;
+
+/**
+ * Fix the mistakes models commonly make writing JSON, such as the arguments
+ * of a tool call:
+ *
+ * - markdown code fences around the value
+ * - trailing commas
+ * - single-quoted strings and unquoted keys
+ * - raw newlines, tabs and other control characters inside strings
+ * - Python's True, False and None
+ * - truncated values, closed after dropping the member left incomplete
+ *
+ * Valid JSON comes back unchanged.
+ * @returns The repaired text, which is not guaranteed to parse
+ */
+export function repair_json(text: string): string {
+  const source = strip_code_fence(text.trim());
+  let out = '';
+  const stack: Container[] = [];
+  const top = () => stack[stack.length - 1];
+  // A value was completed, the member holding it is whole
+  const end_value = () => {
+    const container = top();
+    if (container && (container.close === ']' || container.after_colon)) {
+      container.complete = true;
+    }
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (char === '"' || char === "'") {
+      const { value, end, closed } = read_string(source, i);
+      out += value;
+      i = end;
+      if (closed) {
+        end_value();
+      }
+      continue;
+    }
+    if (char === '{' || char === '[') {
+      out += char;
+      stack.push({
+        close: char === '{' ? '}' : ']',
+        member_start: out.length,
+        after_colon: false,
+        complete: false,
+      });
+      i++;
+      continue;
+    }
+    if (char === '}' || char === ']') {
+      out = out.replace(/,\s*$/, '');
+      if (stack.length) {
+        out += stack.pop()!.close;
+        end_value();
+      }
+      i++;
+      continue;
+    }
+    if (char === ',') {
+      const container = top();
+      if (container) {
+        container.member_start = out.length;
+        container.after_colon = false;
+        container.complete = false;
+      }
+      out += char;
+      i++;
+      continue;
+    }
+    if (char === ':') {
+      if (top()) {
+        top().after_colon = true;
+      }
+      out += char;
+      i++;
+      continue;
+    }
+    if (/\s/.test(char)) {
+      out += char;
+      i++;
+      continue;
+    }
+    // Bare word: number, literal or unquoted key
+    BARE_WORD.lastIndex = i;
+    const word = BARE_WORD.exec(source)![0];
+    i += word.length;
+    const container = top();
+    if (container?.close === '}' && !container.after_colon) {
+      out += JSON.stringify(word);
+    } else if (NUMBER_PATTERN.test(word) || ['true', 'false', 'null'].includes(word)) {
+      out += word;
+      end_value();
+    } else if (word in PYTHON_LITERALS) {
+      out += PYTHON_LITERALS[word];
+      end_value();
+    } else {
+      // Left for the parser to reject, unless truncation drops it
+      out += word;
+    }
+  }
+
+  // Close what truncation left open, dropping the members cut short
+  while (stack.length) {
+    const container = stack.pop()!;
+    if (!container.complete) {
+      out = out.slice(0, container.member_start);
+    }
+    out = out.replace(/,\s*$/, '').trimEnd() + container.close;
+    end_value();
+  }
+  return out;
+}
+
+function strip_code_fence(text: string): string {
+  const fenced = /^```[\w-]*\n([\s\S]*)```$/.exec(text);
+  return fenced ? fenced[1].trim() : text;
+}
+
+/**
+ * Read the string starting at `start` as a double-quoted JSON string,
+ * escaping the characters JSON does not allow raw. An unterminated string is
+ * closed at the end of the text.
+ */
+function read_string(
+  source: string,
+  start: number,
+): { value: string; end: number; closed: boolean } {
+  const quote = source[start];
+  let value = '"';
+  let i = start + 1;
+  while (i < source.length) {
+    const char = source[i];
+    if (char === '\\') {
+      const next = source[i + 1];
+      if (next === undefined) {
+        i++;
+        break;
+      }
+      // \' is only an escape in single-quoted strings, JSON has none
+      value += next === "'" ? "'" : char + next;
+      i += 2;
+      continue;
+    }
+    if (char === quote) {
+      return { value: value + '"', end: i + 1, closed: true };
+    }
+    if (char === '"') {
+      value += '\\"';
+    } else if (char === '\n') {
+      value += '\\n';
+    } else if (char === '\r') {
+      value += '\\r';
+    } else if (char === '\t') {
+      value += '\\t';
+    } else if (char < ' ') {
+      value += `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`;
+    } else {
+      value += char;
+    }
+    i++;
+  }
+  return { value: value + '"', end: i, closed: false };
+}
@@ -0,0 +1,267 @@
+export type JSONSchema = Record<string, any>;
+
+export interface SchemaError {
+  // Location of the invalid value, `$` being the validated value itself
+  path: string;
+  message: string;
+}
+
+/**
+ * JSON type of a value, as named in JSON Schema.
+ */
+export function json_type_of(value: unknown): string {
+  if (value == null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+function matches_type(value: unknown, type: string): boolean {
+  const actual = json_type_of(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * Validate a value against a JSON Schema.
+ *
+ * Covers the subset tool schemas use: type, enum, const, anyOf, oneOf, allOf,
+ * properties, required, additionalProperties, items, string/number/array
+ * bounds and pattern. Unknown keywords are ignored.
+ * @returns The errors found, empty when the value is valid.
+ */
+export function validate_schema(schema: JSONSchema, value: unknown, path = '$'): SchemaError[] {
+  if (!schema || typeof schema !== 'object') {
+    return [];
+  }
+  const errors: SchemaError[] = [];
+  const fail = (message: string) => errors.push({ path, message });
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matches_type(value, type))) {
+      fail(`expected ${types.join(' or ')}, got ${json_type_of(value)}`);
+      return errors;
+    }
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some((v: unknown) => deep_equal(v, value))) {
+    fail(`must be one of ${schema.enum.map((v: unknown) => JSON.stringify(v)).join(', ')}`);
+  }
+  if ('const' in schema && !deep_equal(schema.const, value)) {
+    fail(`must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (Array.isArray(schema.anyOf)) {
+    const branches = schema.anyOf.map((s: JSONSchema) => validate_schema(s, value, path));
+    if (!branches.some((e: SchemaError[]) => e.length === 0)) {
+      fail(`does not match any allowed schema`);
+    }
+  }
+  if (Array.isArray(schema.oneOf)) {
+    const matching = schema.oneOf.filter(
+      (s: JSONSchema) => validate_schema(s, value, path).length === 0,
+    ).length;
+    if (matching !== 1) {
+      fail(matching === 0 ? 'does not match any allowed schema' : 'matches more than one schema');
+    }
+  }
+  if (Array.isArray(schema.allOf)) {
+    for (const sub of schema.allOf) {
+      errors.push(...validate_schema(sub, value, path));
+    }
+  }
+
+  switch (json_type_of(value)) {
+    case 'string':
+      validate_string(schema, value as string, fail);
+      break;
+    case 'integer':
+    case 'number':
+      validate_number(schema, value as number, fail);
+      break;
+    case 'array':
+      errors.push(...validate_array(schema, value as unknown[], path, fail));
+      break;
+    case 'object':
+      errors.push(...validate_object(schema, value as Record<string, unknown>, path, fail));
+      break;
+  }
+  return errors;
+}
+
+function validate_string(schema: JSONSchema, value: string, fail: (message: string) => void) {
+  if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+    fail(`must be at least ${schema.minLength} characters long`);
+  }
+  if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+    fail(`must be at most ${schema.maxLength} characters long`);
+  }
+  if (typeof schema.pattern === 'string') {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(schema.pattern, 'u');
+    } catch {
+      // A broken schema rejects the value rather than the call
+      fail(`cannot be checked, the schema pattern ${schema.pattern} is invalid`);
+      return;
+    }
+    if (!pattern.test(value)) {
+      fail(`must match pattern ${schema.pattern}`);
+    }
+  }
+}
+
+function validate_number(schema: JSONSchema, value: number, fail: (message: string) => void) {
+  if (typeof schema.minimum === 'number' && value < schema.minimum) {
+    fail(`must be >= ${schema.minimum}`);
+  }
+  if (typeof schema.maximum === 'number' && value > schema.maximum) {
+    fail(`must be <= ${schema.maximum}`);
+  }
+  if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+    fail(`must be > ${schema.exclusiveMinimum}`);
+  }
+  if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+    fail(`must be < ${schema.exclusiveMaximum}`);
+  }
+}
+
+function validate_array(
+  schema: JSONSchema,
+  value: unknown[],
+  path: string,
+  fail: (message: string) => void,
+): SchemaError[] {
+  const errors: SchemaError[] = [];
+  if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+    fail(`must have at least ${schema.minItems} items`);
+  }
+  if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+    fail(`must have at most ${schema.maxItems} items`);
+  }
+  if (schema.items && typeof schema.items === 'object') {
+    value.forEach((item, i) =>
+      errors.push(...validate_schema(schema.items, item, `${path}[${i}]`)),
+    );
+  }
+  return errors;
+}
+
+function validate_object(
+  schema: JSONSchema,
+  value: Record<string, unknown>,
+  path: string,
+  fail: (message: string) => void,
+): SchemaError[] {
+  const errors: SchemaError[] = [];
+  const properties: Record<string, JSONSchema> = schema.properties ?? {};
+  for (const key of schema.required ?? []) {
+    if (value[key] === undefined) {
+      errors.push({ path: `${path}.${key}`, message: 'is required' });
+    }
+  }
+  for (const [key, item] of Object.entries(value)) {
+    if (Object.hasOwn(properties, key)) {
+      errors.push(...validate_schema(properties[key], item, `${path}.${key}`));
+    } else if (schema.additionalProperties === false) {
+      fail(`unexpected property '${key}'`);
+    } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+      errors.push(...validate_schema(schema.additionalProperties, item, `${path}.${key}`));
+    }
+  }
+  return errors;
+}
+
+/**
+ * Convert the values models commonly get the type of wrong to the type the
+ * schema expects: numbers and booleans written as strings, numbers and
+ * booleans where a string is expected, and objects or arrays sent as JSON
+ * strings. Values that cannot be converted without guessing are left as they
+ * are, for validate_schema to report.
+ * @returns The coerced value, the given one is not modified.
+ */
+export function coerce_schema(schema: JSONSchema, value: unknown): unknown {
+  if (!schema || typeof schema !== 'object' || value === undefined) {
+    return value;
+  }
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matches_type(value, type))) {
+      for (const type of types) {
+        const coerced = coerce_value(value, type);
+        if (coerced !== undefined) {
+          value = coerced;
+          break;
+        }
+      }
+    }
+  }
+  switch (json_type_of(value)) {
+    case 'array':
+      if (schema.items && typeof schema.items === 'object') {
+        return (value as unknown[]).map((item) => coerce_schema(schema.items, item));
+      }
+      return value;
+    case 'object': {
+      const properties: Record<string, JSONSchema> = schema.properties ?? {};
+      const additional =
+        typeof schema.additionalProperties === 'object' ? schema.additionalProperties : undefined;
+      return Object.fromEntries(
+        Object.entries(value as Record<string, unknown>).map(([key, item]) => [
+          key,
+          coerce_schema(Object.hasOwn(properties, key) ? properties[key] : additional, item),
+        ]),
+      );
+    }
+    default:
+      return value;
+  }
+}
+
+const NUMBER_PATTERN = /^-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?$/;
+
+/**
+ * A value converted to a JSON type, undefined when it cannot be safely.
+ */
+function coerce_value(value: unknown, type: string): unknown {
+  switch (type) {
+    case 'integer':
+    case 'number': {
+      if (typeof value !== 'string' || !NUMBER_PATTERN.test(value.trim())) {
+        return undefined;
+      }
+      const number = Number(value);
+      return type === 'integer' && !Number.isInteger(number) ? undefined : number;
+    }
+    case 'boolean':
+      return value === 'true' ? true : value === 'false' ? false : undefined;
+    case 'string':
+      return typeof value === 'number' || typeof value === 'boolean' ? String(value) : undefined;
+    case 'array':
+    case 'object': {
+      if (typeof value !== 'string') {
+        return undefined;
+      }
+      try {
+        const parsed = JSON.parse(value);
+        return json_type_of(parsed) === type ? parsed : undefined;
+      } catch {
+        return undefined;
+      }
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Render errors as one line per field, for messages sent back to the model.
+ */
+export function format_schema_errors(errors: SchemaError[]): string {
+  return errors.map((e) => `${e.path}: ${e.message}`).join('\n');
+}
+
+function deep_equal(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a == null || b == null) return false;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -5,12 +5,9 @@ export default {
     api_key: 'your-api-key',
     max_tokens: 8192,
     temperature: 0.0,
+    // Named profiles take the settings they leave out from the default
     vision: {
-      model: 'qwen-plus',
-      base_url: 'your-api-key',
-      api_key: 'sk-c466e8c00c7647d9808deecb8fa16fe1',
-      max_tokens: 8192,
-      temperature: 0.0,
+      model: 'qwen-vl-plus',
     },
   },
   mcp: {
@@ -24,24 +21,66 @@ export default {
   },
 } as APPConfigMeta;
 
-export interface APPConfigMeta {
-  llm: {
-    model: string;
-    base_url: string;
-    api_key: string;
-    max_tokens: number;
-    temperature: number;
-    max_input_tokens?: number;
-    api_type?: string;
-    api_version?: string;
-    vision: {
-      model: string;
-      base_url: string;
-      api_key: string;
-      max_tokens: number;
-      temperature: number;
-    };
+/**
+ * Settings of one LLM entry.
+ */
+export interface LLMConfigMeta {
+  model: string;
+  base_url: string;
+  api_key: string;
+  max_tokens: number;
+  temperature: number;
+  max_input_tokens?: number;
+  // Overrides of the model capability registry
+  capabilities?: {
+    vision?: boolean;
+    tool_calling?: boolean;
+    reasoning?: boolean;
+    context_window?: number;
+    max_output_tokens?: number;
+    streaming_usage?: boolean;
+    json_mode?: boolean;
+  };
+  token_budget?: number;
+  budget_warning_thresholds?: number[];
+  api_type?: string;
+  api_version?: string;
+  cassette?: string;
+  cassette_mode?: 'record' | 'replay';
+  // USD per million tokens, keyed by model name
+  pricing?: Record<string, { input: number; output: number; cached_input?: number }>;
+  // Profiles tried in order when the model fails
+  fallbacks?: string[];
+  // Profile ask_with_image sends images to, vision when that profile exists
+  vision_profile?: string;
+  // tiktoken encoding name or path of a HuggingFace tokenizer.json
+  tokenizer?: string;
+  // ttl in seconds, max_size in megabytes
+  cache?: {
+    enabled?: boolean;
+    ttl?: number;
+    max_size?: number;
+    dir?: string;
   };
+  // Shared by the entries calling the same base_url and model
+  rate_limit?: {
+    requests_per_minute?: number;
+    tokens_per_minute?: number;
+    max_concurrent?: number;
+  };
+  // Waits in seconds
+  retry?: {
+    max_attempts?: number;
+    initial_wait?: number;
+    max_wait?: number;
+    multiplier?: number;
+    jitter?: number;
+  };
+}
+
+export interface APPConfigMeta {
+  // Named profiles such as vision, partial LLMConfigMeta inheriting from the default
+  llm: LLMConfigMeta & Record<string, unknown>;
   browser?: {
     headless?: boolean;
     disable_security?: boolean;